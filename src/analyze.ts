@@ -0,0 +1,444 @@
+import { existsSync, readFileSync } from 'fs';
+import { extname } from 'path';
+import { AgentData } from './types';
+import { loadSnapshot } from './snapshots';
+import { percentile } from './report';
+import { escapeCsv } from './sinks';
+
+/**
+ * Per-agent metrics that feed the weighted score
+ */
+export type ScoreMetric = 'sales' | 'sales_per_member' | 'review_velocity' | 'rating' | 'reviews';
+
+export const SCORE_METRICS: ScoreMetric[] = ['sales', 'sales_per_member', 'review_velocity', 'rating', 'reviews'];
+
+/**
+ * Relative weight of each metric's percentile in the score
+ */
+export type ScoreWeights = Record<ScoreMetric, number>;
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+    sales: 0.4,
+    sales_per_member: 0.2,
+    review_velocity: 0.2,
+    rating: 0.1,
+    reviews: 0.1
+};
+
+/**
+ * Format of an analysis report file
+ */
+export type AnalysisFormat = 'markdown' | 'csv' | 'html';
+
+/**
+ * Market used for results that were not scraped by a batch search
+ */
+const DEFAULT_MARKET = 'all';
+
+/**
+ * One agent with derived metrics, percentile ranks and score
+ */
+export interface AgentAnalysis {
+    rank: number;
+    market_rank: number;
+    agent_name: string;
+    profile_url: string;
+    market: string;
+    badge_type: string | null;
+    sales_last_12_months: number | null;
+    team_members_count: number | null;
+    sales_per_member: number | null;    // Sales (12 months) per team member; solo agents count as a team of one
+    review_count: number;
+    years_experience: number | null;
+    review_velocity: number | null;     // Reviews per year of experience
+    rating_stars: number;
+    percentiles: Record<ScoreMetric, number | null>;  // 0-100 within the agent's market; null when the metric is missing
+    score: number | null;   // Weighted mean of the percentiles, a missing metric counting as 0; 0-100
+}
+
+/**
+ * Aggregates over the agents of one market
+ */
+export interface MarketAggregate {
+    market: string;
+    agents: number;
+    median_sales: number | null;
+    median_sales_per_member: number | null;
+    median_review_velocity: number | null;
+    average_rating: number | null;
+    badge_mix: Record<string, number>;  // Agents per badge; "None" for agents without one
+}
+
+/**
+ * Ranked analysis of a results file
+ */
+export interface AnalysisReport {
+    source: string;
+    generated_at: string;
+    weights: ScoreWeights;
+    failed: number;     // Failed records left out of the analysis
+    duplicates: number; // Records flagged as likely duplicates, left out too
+    markets: MarketAggregate[];
+    agents: AgentAnalysis[];
+}
+
+/**
+ * Read scraped agents from a JSON results array, a snapshot or an NDJSON file
+ */
+export function readResultsFile(path: string): AgentData[] {
+    const extension = extname(path).toLowerCase();
+    if (extension !== '.ndjson' && extension !== '.jsonl') {
+        return Object.values(loadSnapshot(path).agents);
+    }
+
+    if (!existsSync(path)) {
+        throw new Error(`Results file not found: ${path}`);
+    }
+    return readFileSync(path, 'utf-8')
+        .split(/\r?\n/)
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line) as AgentData);
+}
+
+/**
+ * Parse `--weights sales=0.5,rating=0.2`; metrics left out keep their default weight
+ */
+export function parseScoreWeights(spec: string): ScoreWeights {
+    const weights = { ...DEFAULT_SCORE_WEIGHTS };
+    for (const entry of spec.split(',').map(part => part.trim()).filter(Boolean)) {
+        const [name, value] = entry.split('=').map(part => part.trim());
+        if (!SCORE_METRICS.includes(name as ScoreMetric)) {
+            throw new Error(`unknown score metric "${name}"; choose from ${SCORE_METRICS.join(', ')}`);
+        }
+        const weight = Number(value);
+        if (value === undefined || value === '' || !Number.isFinite(weight) || weight < 0) {
+            throw new Error(`weight for ${name} must be a non-negative number (got "${value ?? ''}")`);
+        }
+        weights[name as ScoreMetric] = weight;
+    }
+    if (SCORE_METRICS.every(metric => weights[metric] === 0)) {
+        throw new Error('at least one score weight must be positive');
+    }
+    return weights;
+}
+
+function round(value: number | null, digits = 2): number | null {
+    return value === null ? null : Number(value.toFixed(digits));
+}
+
+function median(values: number[]): number | null {
+    return percentile([...values].sort((a, b) => a - b), 50);
+}
+
+function metricValue(agent: AgentAnalysis, metric: ScoreMetric): number | null {
+    switch (metric) {
+        case 'sales': return agent.sales_last_12_months;
+        case 'sales_per_member': return agent.sales_per_member;
+        case 'review_velocity': return agent.review_velocity;
+        case 'rating': return agent.review_count > 0 ? agent.rating_stars : null;
+        case 'reviews': return agent.review_count;
+    }
+}
+
+/**
+ * Share of values at or below `value`, 0-100
+ */
+function percentileRank(sorted: number[], value: number): number {
+    let atOrBelow = 0;
+    while (atOrBelow < sorted.length && sorted[atOrBelow] <= value) atOrBelow++;
+    return Number(((atOrBelow / sorted.length) * 100).toFixed(1));
+}
+
+/**
+ * Derive per-agent metrics, rank agents by weighted score within and across
+ * markets, and aggregate each market. Failed records and likely duplicates are left out.
+ */
+export function analyzeAgents(results: AgentData[], weights: ScoreWeights, source: string): AnalysisReport {
+    const failed = results.filter(agent => agent.scrape_status === 'failed').length;
+    const duplicates = results.filter(agent => agent.scrape_status !== 'failed' && agent.duplicate_of).length;
+    const scraped = results.filter(agent => agent.scrape_status !== 'failed' && !agent.duplicate_of);
+
+    const agents: AgentAnalysis[] = scraped.map(agent => {
+        const teamSize = agent.team_members_count && agent.team_members_count > 0 ? agent.team_members_count : 1;
+        return {
+            rank: 0,
+            market_rank: 0,
+            agent_name: agent.agent_name,
+            profile_url: agent.profile_url,
+            market: agent.market ?? DEFAULT_MARKET,
+            badge_type: agent.badge_type,
+            sales_last_12_months: agent.sales_last_12_months,
+            team_members_count: agent.team_members_count,
+            sales_per_member: agent.sales_last_12_months === null ? null : round(agent.sales_last_12_months / teamSize),
+            review_count: agent.review_count,
+            years_experience: agent.years_experience ?? null,
+            review_velocity: agent.years_experience ? round(agent.review_count / agent.years_experience) : null,
+            rating_stars: agent.rating_stars,
+            percentiles: { sales: null, sales_per_member: null, review_velocity: null, rating: null, reviews: null },
+            score: null
+        };
+    });
+
+    const byMarket = new Map<string, AgentAnalysis[]>();
+    for (const agent of agents) {
+        const members = byMarket.get(agent.market) ?? [];
+        members.push(agent);
+        byMarket.set(agent.market, members);
+    }
+
+    // Percentiles are taken within each market. A missing metric counts as the 0th percentile,
+    // so a profile without sales stats cannot outrank agents with sales on reviews alone.
+    for (const members of byMarket.values()) {
+        for (const metric of SCORE_METRICS) {
+            const sorted = members
+                .map(agent => metricValue(agent, metric))
+                .filter((value): value is number => value !== null)
+                .sort((a, b) => a - b);
+            for (const agent of members) {
+                const value = metricValue(agent, metric);
+                agent.percentiles[metric] = value === null ? null : percentileRank(sorted, value);
+            }
+        }
+
+        for (const agent of members) {
+            let weighted = 0;
+            let totalWeight = 0;
+            for (const metric of SCORE_METRICS) {
+                weighted += (agent.percentiles[metric] ?? 0) * weights[metric];
+                totalWeight += weights[metric];
+            }
+            agent.score = totalWeight > 0 ? round(weighted / totalWeight, 1) : null;
+        }
+    }
+
+    const byScore = (a: AgentAnalysis, b: AgentAnalysis) =>
+        (b.score ?? -1) - (a.score ?? -1)
+        || (b.sales_last_12_months ?? -1) - (a.sales_last_12_months ?? -1)
+        || a.agent_name.localeCompare(b.agent_name);
+
+    agents.sort(byScore);
+    agents.forEach((agent, index) => { agent.rank = index + 1; });
+    for (const members of byMarket.values()) {
+        members.sort(byScore).forEach((agent, index) => { agent.market_rank = index + 1; });
+    }
+
+    const markets: MarketAggregate[] = [...byMarket.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([market, members]) => {
+            const present = (values: (number | null)[]) => values.filter((value): value is number => value !== null);
+            const rated = members.filter(agent => agent.review_count > 0);
+            const badgeMix: Record<string, number> = {};
+            for (const agent of members) {
+                const badge = agent.badge_type ?? 'None';
+                badgeMix[badge] = (badgeMix[badge] ?? 0) + 1;
+            }
+            return {
+                market,
+                agents: members.length,
+                median_sales: median(present(members.map(agent => agent.sales_last_12_months))),
+                median_sales_per_member: median(present(members.map(agent => agent.sales_per_member))),
+                median_review_velocity: median(present(members.map(agent => agent.review_velocity))),
+                average_rating: rated.length > 0
+                    ? round(rated.reduce((sum, agent) => sum + agent.rating_stars, 0) / rated.length)
+                    : null,
+                badge_mix: badgeMix
+            };
+        });
+
+    return {
+        source,
+        generated_at: new Date().toISOString(),
+        weights,
+        failed,
+        duplicates,
+        markets,
+        agents
+    };
+}
+
+/**
+ * Pick the report format from the file extension
+ */
+export function analysisFormatFor(path: string): AnalysisFormat {
+    switch (extname(path).toLowerCase()) {
+        case '.md':
+        case '.markdown':
+            return 'markdown';
+        case '.csv':
+            return 'csv';
+        case '.html':
+        case '.htm':
+            return 'html';
+        default:
+            throw new Error(`cannot tell the report format of "${path}"; use .md, .csv or .html`);
+    }
+}
+
+const RANKING_HEADERS = ['Rank', 'Agent', 'Market', 'Market rank', 'Score', 'Sales (12mo)', 'Team', 'Sales/member', 'Reviews', 'Reviews/yr', 'Rating', 'Badge'];
+const MARKET_HEADERS = ['Market', 'Agents', 'Median sales (12mo)', 'Median sales/member', 'Median reviews/yr', 'Average rating', 'Badges'];
+
+function show(value: number | string | null): string {
+    return value === null ? '-' : String(value);
+}
+
+function formatBadgeMix(mix: Record<string, number>): string {
+    return Object.entries(mix)
+        .sort(([, a], [, b]) => b - a)
+        .map(([badge, count]) => `${badge}: ${count}`)
+        .join(', ');
+}
+
+function rankingRow(agent: AgentAnalysis): (number | string | null)[] {
+    return [
+        agent.rank,
+        agent.agent_name,
+        agent.market,
+        agent.market_rank,
+        agent.score,
+        agent.sales_last_12_months,
+        agent.team_members_count,
+        agent.sales_per_member,
+        agent.review_count,
+        agent.review_velocity,
+        agent.review_count > 0 ? agent.rating_stars : null,
+        agent.badge_type
+    ];
+}
+
+function marketRow(market: MarketAggregate): (number | string | null)[] {
+    return [
+        market.market,
+        market.agents,
+        market.median_sales,
+        market.median_sales_per_member,
+        market.median_review_velocity,
+        market.average_rating,
+        formatBadgeMix(market.badge_mix)
+    ];
+}
+
+function formatWeights(weights: ScoreWeights): string {
+    return SCORE_METRICS.map(metric => `${metric} ${weights[metric]}`).join(', ');
+}
+
+/**
+ * " 3 failed record(s) and 2 likely duplicate(s) left out.", or "" when nothing was left out
+ */
+function formatLeftOut(report: AnalysisReport): string {
+    const parts = [
+        report.failed > 0 ? `${report.failed} failed record(s)` : null,
+        report.duplicates > 0 ? `${report.duplicates} likely duplicate(s)` : null
+    ].filter((part): part is string => part !== null);
+    return parts.length > 0 ? ` ${parts.join(' and ')} left out.` : '';
+}
+
+/**
+ * Markdown report: market aggregates, then the ranking (the first `top` agents, or all)
+ */
+export function formatAnalysisMarkdown(report: AnalysisReport, top: number | null = null): string {
+    const cell = (value: number | string | null) => show(value).replace(/\|/g, '\\|');
+    const table = (headers: string[], rows: (number | string | null)[][]) => [
+        `| ${headers.join(' | ')} |`,
+        `|${headers.map(() => '---').join('|')}|`,
+        ...rows.map(row => `| ${row.map(cell).join(' | ')} |`)
+    ];
+
+    const agents = top === null ? report.agents : report.agents.slice(0, top);
+    return [
+        `# Agent ranking: ${report.source}`,
+        '',
+        `Generated ${report.generated_at}. Score weights: ${formatWeights(report.weights)}.`
+            + formatLeftOut(report),
+        '',
+        '## Markets',
+        '',
+        ...table(MARKET_HEADERS, report.markets.map(marketRow)),
+        '',
+        `## Ranking${agents.length < report.agents.length ? ` (top ${agents.length} of ${report.agents.length})` : ''}`,
+        '',
+        ...table(RANKING_HEADERS, agents.map(rankingRow)),
+        ''
+    ].join('\n');
+}
+
+/**
+ * CSV ranking with every metric and percentile, one row per agent
+ */
+export function formatAnalysisCsv(report: AnalysisReport, top: number | null = null): string {
+    const columns: (keyof AgentAnalysis)[] = [
+        'rank', 'market_rank', 'agent_name', 'profile_url', 'market', 'score', 'badge_type',
+        'sales_last_12_months', 'team_members_count', 'sales_per_member',
+        'review_count', 'years_experience', 'review_velocity', 'rating_stars'
+    ];
+    const agents = top === null ? report.agents : report.agents.slice(0, top);
+    const lines = [
+        [...columns, ...SCORE_METRICS.map(metric => `${metric}_percentile`)].join(','),
+        ...agents.map(agent => [
+            ...columns.map(column => escapeCsv(agent[column])),
+            ...SCORE_METRICS.map(metric => escapeCsv(agent.percentiles[metric]))
+        ].join(','))
+    ];
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * CSV of the market aggregates, written next to a CSV ranking
+ */
+export function formatMarketsCsv(report: AnalysisReport): string {
+    const lines = [
+        'market,agents,median_sales,median_sales_per_member,median_review_velocity,average_rating,badge_mix',
+        ...report.markets.map(market => marketRow(market).map(escapeCsv).join(','))
+    ];
+    return lines.join('\n') + '\n';
+}
+
+function escapeHtml(value: number | string | null): string {
+    return show(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Standalone HTML page with the market aggregates and the ranking
+ */
+export function formatAnalysisHtml(report: AnalysisReport, top: number | null = null): string {
+    const table = (headers: string[], rows: (number | string | null)[][]) => [
+        '<table>',
+        `<thead><tr>${headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>`,
+        '<tbody>',
+        ...rows.map(row => `<tr>${row.map(value => `<td>${escapeHtml(value)}</td>`).join('')}</tr>`),
+        '</tbody>',
+        '</table>'
+    ];
+
+    const agents = top === null ? report.agents : report.agents.slice(0, top);
+
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        '<head>',
+        '<meta charset="utf-8">',
+        `<title>Agent ranking: ${escapeHtml(report.source)}</title>`,
+        '<style>',
+        'body { font-family: system-ui, sans-serif; margin: 2rem; }',
+        'table { border-collapse: collapse; margin-bottom: 2rem; }',
+        'th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; text-align: left; }',
+        'th { background: #f3f3f3; }',
+        'tbody tr:nth-child(even) { background: #fafafa; }',
+        '</style>',
+        '</head>',
+        '<body>',
+        `<h1>Agent ranking: ${escapeHtml(report.source)}</h1>`,
+        `<p>Generated ${escapeHtml(report.generated_at)}. Score weights: ${escapeHtml(formatWeights(report.weights))}.`
+            + escapeHtml(formatLeftOut(report)) + '</p>',
+        '<h2>Markets</h2>',
+        ...table(MARKET_HEADERS, report.markets.map(marketRow)),
+        `<h2>Ranking${agents.length < report.agents.length ? ` (top ${agents.length} of ${report.agents.length})` : ''}</h2>`,
+        ...table(RANKING_HEADERS, agents.map(rankingRow)),
+        '</body>',
+        '</html>',
+        ''
+    ].join('\n');
+}
@@ -0,0 +1,128 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { BrowserContext, Request, Response, Route } from 'playwright';
+
+/**
+ * Whether an archive captures live responses or serves them back
+ */
+export type ArchiveMode = 'record' | 'replay';
+
+/**
+ * Metadata saved next to each archived response body
+ */
+export interface ArchivedResponse {
+    method: string;
+    url: string;
+    status: number;
+    content_type: string | null;
+    resource_type: string;      // Playwright resource type: document, xhr or fetch
+    recorded_at: string;
+}
+
+/**
+ * Resource types worth archiving: the HTML pages carrying `__NEXT_DATA__`
+ * and the JSON behind "load more" buttons
+ */
+const ARCHIVED_RESOURCE_TYPES = ['document', 'xhr', 'fetch'];
+
+/**
+ * Local archive of Zillow responses. In record mode every list/profile page (and
+ * "load more" JSON) a browser context receives is saved; in replay mode those
+ * responses are served back through request routing and nothing reaches the network.
+ *
+ * Each response is stored as `<key>.json` (metadata) and `<key>.body`, keyed by a
+ * hash of method, URL and request body, so scrapers sharing a directory never clash.
+ */
+export class ResponseArchive {
+    constructor(public readonly dir: string, public readonly mode: ArchiveMode) {
+        if (mode === 'replay' && !(existsSync(dir) && statSync(dir).isDirectory())) {
+            throw new Error(`Response archive not found: ${dir}`);
+        }
+    }
+
+    /**
+     * Stable key for a request
+     */
+    static keyFor(method: string, url: string, postData: string | null): string {
+        return createHash('sha1')
+            .update(`${method.toUpperCase()} ${url}\n${postData ?? ''}`)
+            .digest('hex')
+            .slice(0, 20);
+    }
+
+    /**
+     * Record or replay the responses of a browser context
+     */
+    async attach(context: BrowserContext): Promise<void> {
+        if (this.mode === 'record') {
+            context.on('response', response => {
+                this.record(response).catch(() => {
+                    // Pages closed before their body was read are simply not archived
+                });
+            });
+        } else {
+            await context.route('**/*', route => this.replay(route));
+        }
+    }
+
+    /**
+     * Look up an archived response
+     */
+    lookup(request: Pick<Request, 'method' | 'url' | 'postData'>): { meta: ArchivedResponse; body: Buffer } | null {
+        const key = ResponseArchive.keyFor(request.method(), request.url(), request.postData());
+        const metaPath = join(this.dir, `${key}.json`);
+        if (!existsSync(metaPath)) return null;
+
+        return {
+            meta: JSON.parse(readFileSync(metaPath, 'utf-8')) as ArchivedResponse,
+            body: readFileSync(join(this.dir, `${key}.body`))
+        };
+    }
+
+    private async record(response: Response): Promise<void> {
+        const request = response.request();
+        if (!ARCHIVED_RESOURCE_TYPES.includes(request.resourceType())) return;
+        if (!/(^|\.)zillow\.com$/.test(new URL(request.url()).hostname)) return;
+        // Redirects have no body; the page they lead to is recorded on its own
+        if (response.status() >= 300 && response.status() < 400) return;
+
+        const body = await response.body();
+        const meta: ArchivedResponse = {
+            method: request.method(),
+            url: request.url(),
+            status: response.status(),
+            content_type: response.headers()['content-type'] ?? null,
+            resource_type: request.resourceType(),
+            recorded_at: new Date().toISOString()
+        };
+
+        mkdirSync(this.dir, { recursive: true });
+        const key = ResponseArchive.keyFor(meta.method, meta.url, request.postData());
+        writeFileSync(join(this.dir, `${key}.body`), body);
+
+        // Metadata goes last (atomically) so a lookup never finds a half-written response
+        const metaPath = join(this.dir, `${key}.json`);
+        writeFileSync(`${metaPath}.tmp`, JSON.stringify(meta, null, 2), 'utf-8');
+        renameSync(`${metaPath}.tmp`, metaPath);
+    }
+
+    private async replay(route: Route): Promise<void> {
+        const request = route.request();
+        const archived = this.lookup(request);
+
+        if (archived) {
+            await route.fulfill({
+                status: archived.meta.status,
+                contentType: archived.meta.content_type ?? undefined,
+                body: archived.body
+            });
+        } else if (request.resourceType() === 'document') {
+            // Surfaces as an HTTP error for the page, like a missing page would live
+            await route.fulfill({ status: 404, contentType: 'text/plain', body: `Not in archive: ${request.url()}` });
+        } else {
+            // Scripts, images etc. are not archived; the parsers only need the HTML
+            await route.abort('internetdisconnected');
+        }
+    }
+}
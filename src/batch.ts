@@ -0,0 +1,351 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { AgentData, AgentListItem, OutputTarget, ScraperOptions } from './types';
+import { DEFAULT_SCRAPER_OPTIONS, OptionsValidationError, pickScraperOptions, validateScraperOptions } from './config';
+import { parseOutputSpec } from './sinks';
+import { siblingPath } from './utils';
+import { RunAbortedError, ZillowScraper } from './scraper';
+import { launchChromium } from './sessions';
+import { WorkerPool } from './pool';
+import { ChallengeAbortError } from './challenges';
+import { LogFormat, LogLevel, Logger } from './logger';
+import { AgentSearchQuery, parseSearchUrl } from './search';
+
+/**
+ * One search of a batch job, with its fully resolved options
+ */
+export interface BatchSearch {
+    name: string;
+    options: ScraperOptions;
+}
+
+/**
+ * A parsed and validated batch job file
+ */
+export interface BatchJob {
+    path: string;
+    parallel: number;           // Searches run at the same time
+    headless: boolean;          // The shared browser is launched once for every search
+    outputs: OutputTarget[];    // Combined results of every search, deduplicated by profile_url
+    searches: BatchSearch[];
+}
+
+/**
+ * Outcome of one search of a batch
+ */
+export interface BatchSearchResult {
+    name: string;
+    listed: AgentListItem[];    // Every agent the search's list included
+    results: AgentData[];       // Agents this search scraped (not those claimed by another search)
+    error: string | null;       // Set when the search crashed
+}
+
+const MAX_PARALLEL_SEARCHES = 5;
+const SEARCH_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+/**
+ * Option keys a job file may set, either in `defaults` or per search
+ */
+const JOB_OPTION_KEYS: (keyof ScraperOptions)[] = (Object.keys(DEFAULT_SCRAPER_OPTIONS) as (keyof ScraperOptions)[])
+    .filter(key => key !== 'outputs' && key !== 'market');
+
+/**
+ * Keys allowed at the top level of a job file
+ */
+const JOB_FILE_KEYS = ['searches', 'defaults', 'parallel', 'out'];
+
+/**
+ * The keys of a job file section, or none when it is not an object
+ */
+function asSection(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+/**
+ * Read a JSON or YAML job file
+ */
+function readJobFile(path: string): unknown {
+    const text = readFileSync(path, 'utf-8');
+    const extension = extname(path).toLowerCase();
+    return extension === '.yaml' || extension === '.yml' ? parseYaml(text) : JSON.parse(text);
+}
+
+/**
+ * Parse `out` (a spec or a list of specs) into output targets, recording unusable specs
+ */
+function parseJobOutputs(value: unknown, where: string, issues: string[]): OutputTarget[] | null {
+    if (value === undefined) return null;
+
+    const specs = Array.isArray(value) ? value : [value];
+    const outputs: OutputTarget[] = [];
+    for (const spec of specs) {
+        if (typeof spec !== 'string') {
+            issues.push(`${where}: out entries must be strings`);
+            continue;
+        }
+        try {
+            outputs.push(parseOutputSpec(spec));
+        } catch (err) {
+            issues.push(`${where}: out ${(err as Error).message}`);
+        }
+    }
+    return outputs;
+}
+
+/**
+ * Copy the recognised option keys of a job file section, recording unknown keys and
+ * values of the wrong type
+ */
+function pickJobOptions(section: unknown, where: string, allowed: string[], issues: string[]): Partial<ScraperOptions> {
+    const fields = asSection(section);
+    for (const key of Object.keys(fields)) {
+        if (!(JOB_OPTION_KEYS as string[]).includes(key) && !allowed.includes(key)) {
+            issues.push(`${where}: unknown key "${key}"`);
+        }
+    }
+
+    const typeIssues: string[] = [];
+    const options = pickScraperOptions(fields, JOB_OPTION_KEYS, typeIssues);
+    issues.push(...typeIssues.map(issue => `${where}: ${issue}`));
+    return options;
+}
+
+/**
+ * Parse a search's `url` (a pasted directory URL) into its search options, recording a bad URL
+ */
+function parseJobSearchUrl(value: unknown, where: string, issues: string[]): Partial<AgentSearchQuery> {
+    if (value === undefined) return {};
+    if (typeof value !== 'string') {
+        issues.push(`${where}: url must be a string`);
+        return {};
+    }
+    try {
+        return parseSearchUrl(value);
+    } catch (err) {
+        issues.push(`${where}: ${(err as Error).message}`);
+        return {};
+    }
+}
+
+/**
+ * Load and validate a batch job file. Every problem across all searches is
+ * reported together as an OptionsValidationError.
+ *
+ * ```yaml
+ * parallel: 2
+ * out: [data/weekly.json, data/weekly.csv]
+ * defaults:
+ *   limit: 200
+ * searches:
+ *   - name: seattle
+ *     location: seattle-wa
+ *   - name: portland-spanish
+ *     location: portland-or
+ *     languages: [Spanish]
+ *   - name: tacoma-teams
+ *     url: https://www.zillow.com/professionals/real-estate-agent-reviews/tacoma-wa/?agentType=team
+ * ```
+ */
+export function loadBatchJob(
+    path: string,
+    overrides: { parallel?: number; resume?: boolean; logLevel?: LogLevel; logFormat?: LogFormat } = {}
+): BatchJob {
+    let data: unknown;
+    try {
+        data = readJobFile(path);
+    } catch (err) {
+        throw new OptionsValidationError([`cannot read job file ${path}: ${(err as Error).message}`]);
+    }
+
+    const file = asSection(data);
+    const entries: unknown[] = Array.isArray(file.searches) ? file.searches : [];
+    if (entries.length === 0) {
+        throw new OptionsValidationError([`job file ${path} must have a non-empty "searches" list`]);
+    }
+
+    // Options only take effect per search, so a top-level option would be silently ignored
+    const issues: string[] = [];
+    for (const key of Object.keys(file)) {
+        if ((JOB_OPTION_KEYS as string[]).includes(key)) {
+            issues.push(`job: option key "${key}" belongs under defaults`);
+        } else if (!JOB_FILE_KEYS.includes(key)) {
+            issues.push(`job: unknown key "${key}"`);
+        }
+    }
+
+    const defaults = pickJobOptions(file.defaults, 'defaults', [], issues);
+
+    const outputs = parseJobOutputs(file.out, 'job', issues) ?? DEFAULT_SCRAPER_OPTIONS.outputs;
+    const requestedParallel = overrides.parallel ?? file.parallel ?? 1;
+    const parallel = typeof requestedParallel === 'number' ? requestedParallel : NaN;
+    if (!Number.isInteger(parallel) || parallel < 1 || parallel > MAX_PARALLEL_SEARCHES) {
+        issues.push(`parallel must be an integer between 1 and ${MAX_PARALLEL_SEARCHES} (got ${requestedParallel})`);
+    }
+
+    const searches: BatchSearch[] = [];
+    const names = new Set<string>();
+    entries.forEach((entry, index) => {
+        const fields = asSection(entry);
+        const name = typeof fields.name === 'string' ? fields.name : '';
+        const where = `search ${name || index + 1}`;
+        if (!SEARCH_NAME_PATTERN.test(name)) {
+            issues.push(`${where}: name is required and may only contain letters, digits, "-" and "_"`);
+        } else if (names.has(name)) {
+            issues.push(`${where}: name is used by more than one search`);
+        }
+        names.add(name);
+
+        // Each search writes its own results next to the combined output unless told otherwise
+        const searchOutputs = parseJobOutputs(fields.out, where, issues)
+            ?? (outputs.length > 0 ? [{ path: siblingPath(outputs[0].path, name, extname(outputs[0].path)), format: outputs[0].format }] : []);
+
+        const options: ScraperOptions = {
+            ...DEFAULT_SCRAPER_OPTIONS,
+            ...defaults,
+            // Options set next to a url override what the url says
+            ...parseJobSearchUrl(fields.url, where, issues),
+            ...pickJobOptions(entry, where, ['name', 'out', 'url'], issues),
+            outputs: searchOutputs,
+            market: name
+        };
+        if (overrides.resume !== undefined) {
+            options.resume = overrides.resume;
+        }
+        options.logLevel = overrides.logLevel ?? options.logLevel;
+        options.logFormat = overrides.logFormat ?? options.logFormat;
+
+        try {
+            validateScraperOptions(options);
+        } catch (err) {
+            if (!(err instanceof OptionsValidationError)) throw err;
+            issues.push(...err.issues.map(issue => `${where}: ${issue}`));
+        }
+        searches.push({ name, options });
+    });
+
+    // Searches share one browser and one terminal, so a per-search headless setting, log format
+    // or persistent profile cannot be honoured
+    if (searches.some(search => search.options.userDataDir)) {
+        issues.push('userDataDir is not supported in batch jobs; use storageStatePath instead');
+    }
+    for (const key of ['headless', 'logFormat'] as const) {
+        if (new Set(searches.map(search => search.options[key])).size > 1) {
+            issues.push(`${key} must be the same for every search (set it in defaults)`);
+        }
+    }
+
+    if (issues.length > 0) {
+        throw new OptionsValidationError(issues);
+    }
+
+    return {
+        path,
+        parallel,
+        headless: searches[0].options.headless,
+        outputs,
+        searches
+    };
+}
+
+/**
+ * Merge per-search results into one list, keeping each agent once (from the
+ * first search that scraped it) and tagging it with every market that listed it
+ */
+export function combineBatchResults(searches: BatchSearchResult[]): AgentData[] {
+    const marketsByUrl = new Map<string, string[]>();
+    for (const search of searches) {
+        for (const agent of search.listed) {
+            const markets = marketsByUrl.get(agent.profile_url) ?? [];
+            if (!markets.includes(search.name)) markets.push(search.name);
+            marketsByUrl.set(agent.profile_url, markets);
+        }
+    }
+
+    const combined = new Map<string, AgentData>();
+    for (const search of searches) {
+        for (const agent of search.results) {
+            if (combined.has(agent.profile_url)) continue;
+            combined.set(agent.profile_url, {
+                ...agent,
+                market: agent.market ?? search.name,
+                markets: marketsByUrl.get(agent.profile_url) ?? [search.name]
+            });
+        }
+    }
+
+    return [...combined.values()];
+}
+
+/**
+ * Run every search of a batch job with one shared browser, `job.parallel` at a time.
+ * An agent listed by several searches is detail-scraped only by the first to reach it.
+ * `onSearchDone` is called with each search's scraper as soon as that search finishes.
+ * Aborting `signal` cancels the running searches and skips those not yet started.
+ */
+export async function runBatch(
+    job: BatchJob,
+    onSearchDone?: (search: BatchSearch, scraper: ZillowScraper, result: BatchSearchResult) => void | Promise<void>,
+    signal?: AbortSignal
+): Promise<BatchSearchResult[]> {
+    const { logLevel, logFormat } = job.searches[0].options;
+    const logger = Logger.create({ level: logLevel, format: logFormat });
+    const browser = await launchChromium(job.headless);
+    const claimedAgents = new Set<string>();
+
+    // The pool only bounds how many searches run at once; pacing is per search
+    const pool = new WorkerPool<BatchSearch, BatchSearchResult>({
+        concurrency: job.parallel,
+        minConcurrency: job.parallel,
+        requestsPerMinute: 0,
+        minDelayMs: 0,
+        maxDelayMs: 0,
+        adaptive: false,
+        rampUpAfter: 1
+    });
+    const stopPool = () => pool.stop();
+    signal?.addEventListener('abort', stopPool, { once: true });
+
+    try {
+        // Agents finished before a resume stay with their search
+        const scrapers = job.searches.map(search =>
+            new ZillowScraper(search.options, { browser, claimedAgents, logger: logger.child({ search: search.name }) }));
+        for (const scraper of scrapers) {
+            scraper.claimCheckpointedAgents();
+        }
+
+        const results = await pool.run(
+            job.searches,
+            async (search, index) => {
+                logger.info(`Search ${index + 1}/${job.searches.length} ${search.name}: ${search.options.location}`, { search: search.name });
+                const scraper = scrapers[index];
+
+                let result: BatchSearchResult;
+                try {
+                    const results = await scraper.run({ signal });
+                    result = { name: search.name, listed: scraper.listed, results, error: null };
+                } catch (err) {
+                    if (err instanceof RunAbortedError) {
+                        // Records finished before the cancellation are kept
+                        result = { name: search.name, listed: scraper.listed, results: err.results, error: err.message };
+                        await onSearchDone?.(search, scraper, result);
+                        return result;
+                    }
+                    // An aborting challenge strategy stops the searches that have not started yet too
+                    if (err instanceof ChallengeAbortError) pool.stop();
+                    logger.error(`Search failed: ${(err as Error).message}`, { search: search.name });
+                    result = { name: search.name, listed: scraper.listed, results: [], error: (err as Error).message };
+                }
+
+                await onSearchDone?.(search, scraper, result);
+                return result;
+            },
+            result => (result.error ? 'error' : 'ok')
+        );
+        // A stopped pool leaves no result for the searches it never started
+        return results.filter((result): result is BatchSearchResult => result !== undefined);
+    } finally {
+        signal?.removeEventListener('abort', stopPool);
+        await browser.close();
+    }
+}
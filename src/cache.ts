@@ -0,0 +1,155 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { AgentData, AgentDetails, AgentListItem, RelatedRecords } from './types';
+import { emptyAgentDetails } from './parsers';
+import { Logger, defaultLogger } from './logger';
+import { canonicalProfileUrl } from './normalize';
+
+/**
+ * Why a listed agent's profile has to be scraped again in refresh mode
+ * - `new`: not in the cache
+ * - `stale`: cached longer ago than the maximum age
+ * - `changed`: the list card's rating or review count differs from the cached one
+ * - `incomplete`: the cached entry lacks field groups or related records this run collects
+ */
+export type RefreshReason = 'new' | 'stale' | 'changed' | 'incomplete';
+
+/**
+ * A profile as last scraped, with the list card it was scraped for
+ */
+export interface CachedProfile {
+    agent_name: string;
+    rating_stars: number;
+    review_count: number;
+    details: AgentDetails;
+    related: RelatedRecords;
+    collected: string[];    // Field groups and related record kinds the entry holds
+    scraped_at: string;
+}
+
+/**
+ * What refresh mode decided for a run's agents
+ */
+export type RefreshStats = Record<RefreshReason | 'reused', number>;
+
+export function emptyRefreshStats(): RefreshStats {
+    return { reused: 0, new: 0, stale: 0, changed: 0, incomplete: 0 };
+}
+
+interface CacheFile {
+    profiles: Record<string, CachedProfile>;
+}
+
+/**
+ * Previously scraped profile details keyed by profile_url, kept between runs so
+ * refresh mode only re-visits profiles that are new, stale or changed
+ */
+export class ProfileCache {
+    private profiles: Record<string, CachedProfile> = {};
+    private readonly updated = new Set<string>();
+
+    constructor(private readonly filePath: string, private readonly logger: Logger = defaultLogger) {
+        this.profiles = this.read();
+    }
+
+    get path(): string {
+        return this.filePath;
+    }
+
+    get size(): number {
+        return Object.keys(this.profiles).length;
+    }
+
+    get(profileUrl: string): CachedProfile | null {
+        return this.profiles[profileUrl] ?? null;
+    }
+
+    /**
+     * Why `agent` needs scraping, or null when its cached profile can be reused
+     */
+    refreshReason(agent: AgentListItem, maxAgeMs: number, collected: string[], now = Date.now()): RefreshReason | null {
+        const cached = this.profiles[agent.profile_url];
+        if (!cached) return 'new';
+        if (now - Date.parse(cached.scraped_at) > maxAgeMs) return 'stale';
+        if (cached.rating_stars !== agent.rating_stars || cached.review_count !== agent.review_count) return 'changed';
+        if (collected.some(kind => !cached.collected.includes(kind))) return 'incomplete';
+        return null;
+    }
+
+    /**
+     * Store a successfully scraped profile
+     */
+    record(agent: AgentData, related: RelatedRecords, collected: string[]): void {
+        const details = emptyAgentDetails();
+        const copy = <K extends keyof AgentDetails>(field: K): void => {
+            details[field] = agent[field];
+        };
+        (Object.keys(details) as (keyof AgentDetails)[]).forEach(copy);
+
+        this.profiles[agent.profile_url] = {
+            agent_name: agent.agent_name,
+            rating_stars: agent.rating_stars,
+            review_count: agent.review_count,
+            details,
+            related,
+            collected,
+            scraped_at: new Date().toISOString()
+        };
+        this.updated.add(agent.profile_url);
+    }
+
+    /**
+     * Write the profiles recorded since the last save. The file is re-read first, so
+     * runs sharing a cache (e.g. the searches of a batch) keep each other's entries.
+     */
+    save(): void {
+        if (this.updated.size === 0) return;
+
+        const profiles = this.read();
+        for (const url of this.updated) {
+            const saved = profiles[url];
+            if (!saved || saved.scraped_at <= this.profiles[url].scraped_at) {
+                profiles[url] = this.profiles[url];
+            }
+        }
+
+        try {
+            mkdirSync(dirname(this.filePath), { recursive: true });
+            const tmpPath = `${this.filePath}.tmp`;
+            writeFileSync(tmpPath, JSON.stringify({ profiles } satisfies CacheFile), 'utf-8');
+            renameSync(tmpPath, this.filePath);
+            this.profiles = profiles;
+            this.updated.clear();
+        } catch (err) {
+            this.logger.warn(`Could not save profile cache ${this.filePath}: ${(err as Error).message}`);
+        }
+    }
+
+    /**
+     * Profiles on disk; an unreadable cache is treated as empty so the run re-scrapes
+     */
+    private read(): Record<string, CachedProfile> {
+        if (!existsSync(this.filePath)) return {};
+
+        let data: CacheFile;
+        try {
+            data = JSON.parse(readFileSync(this.filePath, 'utf-8')) as CacheFile;
+        } catch (err) {
+            this.logger.warn(`Ignoring unreadable profile cache ${this.filePath}: ${(err as Error).message}`);
+            return {};
+        }
+        if (!data?.profiles || typeof data.profiles !== 'object') return {};
+
+        // Re-keyed so caches written before profile URLs were canonicalized still match;
+        // when two old keys meet, the newer entry wins
+        const profiles: Record<string, CachedProfile> = {};
+        for (const [url, profile] of Object.entries(data.profiles)) {
+            const key = canonicalProfileUrl(url);
+            const existing = profiles[key];
+            if (!existing || existing.scraped_at < profile.scraped_at) {
+                profiles[key] = profile;
+            }
+        }
+        return profiles;
+    }
+}
@@ -0,0 +1,260 @@
+import { EventEmitter } from 'events';
+import { Page } from 'playwright';
+import { ScrapeError } from './errors';
+import { delay } from './utils';
+import { Logger, defaultLogger } from './logger';
+
+/**
+ * How a detected bot challenge is dealt with
+ */
+export type ChallengeStrategyName = 'manual' | 'requeue' | 'pause' | 'abort';
+
+/**
+ * What came of a detected challenge
+ */
+export type ChallengeOutcome = 'solved' | 'skipped' | 'aborted';
+
+/**
+ * Recognises a bot challenge on a loaded page
+ */
+export interface ChallengeDetector {
+    readonly name: string;
+    detect(page: Page): Promise<boolean>;
+}
+
+/**
+ * A challenge being handled
+ */
+export interface ChallengeContext {
+    page: Page;
+    source: 'list' | 'detail';
+    url: string;
+    detector: string;
+}
+
+/**
+ * Settings shared by the strategies
+ */
+export interface ChallengeOptions {
+    detectors: string[];            // Names of built-in detectors to run
+    strategy: ChallengeStrategyName;
+    timeoutMs: number;              // How long manual solving may take
+    cooldownMs: number;             // How long the pause strategy holds every worker
+}
+
+/**
+ * Resolves a challenge. `solved` means the page now has its data.
+ */
+export interface ChallengeStrategy {
+    readonly name: ChallengeStrategyName;
+    handle(challenge: ChallengeContext, handler: ChallengeHandler): Promise<ChallengeOutcome>;
+}
+
+/**
+ * Emitted once per detected challenge
+ */
+export interface ChallengeEvent {
+    source: 'list' | 'detail';
+    url: string;
+    detector: string;
+    strategy: ChallengeStrategyName;
+    outcome: ChallengeOutcome;
+    waited_ms: number;
+    at: string;
+}
+
+/**
+ * Raised by the abort strategy to stop the run
+ */
+export class ChallengeAbortError extends ScrapeError {
+    constructor(public readonly event: ChallengeEvent) {
+        super('bot_challenge', `Run aborted after a bot challenge (${event.detector}) on ${event.url}`);
+        this.name = 'ChallengeAbortError';
+    }
+
+    get retryable(): boolean {
+        return false;
+    }
+}
+
+const NEXT_DATA_SELECTOR = '#__NEXT_DATA__';
+
+/**
+ * Detectors available by name
+ */
+export const CHALLENGE_DETECTORS: Record<string, ChallengeDetector> = {
+    press_and_hold: {
+        name: 'press_and_hold',
+        detect: page => page.evaluate(() => document.body.innerText.includes('Press and Hold'))
+    },
+    challenge_text: {
+        name: 'challenge_text',
+        detect: page => page.evaluate(() => document.body.innerText.includes('challenge'))
+    },
+    captcha_title: {
+        name: 'captcha_title',
+        detect: page => page.evaluate(() => document.title.includes('Robot') || document.title.includes('Captcha'))
+    },
+    px_captcha: {
+        name: 'px_captcha',
+        detect: async page => (await page.locator('#px-captcha').count()) > 0
+    }
+};
+
+/**
+ * Strategies available by name
+ */
+export const CHALLENGE_STRATEGIES: Record<ChallengeStrategyName, ChallengeStrategy> = {
+    // Wait for a human to solve it in the headful browser
+    manual: {
+        name: 'manual',
+        async handle(challenge, handler) {
+            const log = handler.logger.child({ url: challenge.url, detector: challenge.detector });
+            log.warn(`Bot protection detected${challenge.source === 'detail' ? ' on detail page' : ''}! `
+                + 'Please switch to the browser window and solve the CAPTCHA manually; the scraper is waiting.');
+
+            try {
+                await challenge.page.waitForSelector(NEXT_DATA_SELECTOR, { state: 'attached', timeout: handler.options.timeoutMs });
+                log.info('Captcha solved! Resuming...');
+                await delay(2000); // Give it a moment to settle
+                return 'solved';
+            } catch {
+                log.warn('Timed out waiting for manual solve.');
+                return 'skipped';
+            }
+        }
+    },
+
+    // Give the page up for now; the scraper retries it after everything else
+    requeue: {
+        name: 'requeue',
+        async handle(challenge, handler) {
+            handler.logger.warn(`Bot challenge on ${challenge.url}; re-queuing it for later.`, { url: challenge.url, detector: challenge.detector });
+            return 'skipped';
+        }
+    },
+
+    // Hold every worker for a cool-down, then reload the page once
+    pause: {
+        name: 'pause',
+        async handle(challenge, handler) {
+            handler.logger.warn(
+                `Bot challenge on ${challenge.url}; pausing all requests for ${Math.round(handler.options.cooldownMs / 1000)}s.`,
+                { url: challenge.url, detector: challenge.detector }
+            );
+            handler.pauseFor(handler.options.cooldownMs);
+            await handler.waitIfPaused();
+
+            await challenge.page.reload({ waitUntil: 'domcontentloaded', timeout: 60000 });
+            try {
+                await challenge.page.waitForSelector(NEXT_DATA_SELECTOR, { state: 'attached', timeout: 15000 });
+                return 'solved';
+            } catch {
+                return 'skipped';
+            }
+        }
+    },
+
+    // Stop the run
+    abort: {
+        name: 'abort',
+        async handle() {
+            return 'aborted';
+        }
+    }
+};
+
+export declare interface ChallengeHandler {
+    on(event: 'challenge', listener: (event: ChallengeEvent) => void): this;
+    off(event: 'challenge', listener: (event: ChallengeEvent) => void): this;
+    emit(event: 'challenge', payload: ChallengeEvent): boolean;
+}
+
+/**
+ * Detects bot challenges with the configured detectors and resolves them with the
+ * configured strategy, emitting a `challenge` event for each one
+ */
+export class ChallengeHandler extends EventEmitter {
+    private readonly detectors: ChallengeDetector[];
+    private readonly strategy: ChallengeStrategy;
+    private pausedUntil = 0;
+
+    constructor(public readonly options: ChallengeOptions, public readonly logger: Logger = defaultLogger) {
+        super();
+        this.detectors = options.detectors.map(name => {
+            const detector = CHALLENGE_DETECTORS[name];
+            if (!detector) throw new Error(`Unknown challenge detector "${name}"`);
+            return detector;
+        });
+        this.strategy = CHALLENGE_STRATEGIES[options.strategy];
+    }
+
+    /**
+     * Add a custom detector, run after the configured ones
+     */
+    addDetector(detector: ChallengeDetector): void {
+        this.detectors.push(detector);
+    }
+
+    /**
+     * Whether failed challenges should wait for the end of the run instead of retrying at once
+     */
+    get defersRetries(): boolean {
+        return this.strategy.name === 'requeue';
+    }
+
+    /**
+     * Name of the first detector recognising a challenge on the page, or null
+     */
+    async detect(page: Page): Promise<string | null> {
+        for (const detector of this.detectors) {
+            if (await detector.detect(page).catch(() => false)) {
+                return detector.name;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Check a page whose data did not appear. Returns null when no challenge is detected,
+     * otherwise the strategy's outcome; throws ChallengeAbortError when it aborts the run.
+     */
+    async handle(page: Page, source: ChallengeContext['source'], url: string): Promise<ChallengeOutcome | null> {
+        const detector = await this.detect(page);
+        if (!detector) return null;
+
+        const startedAt = Date.now();
+        const outcome = await this.strategy.handle({ page, source, url, detector }, this);
+        const event: ChallengeEvent = {
+            source,
+            url,
+            detector,
+            strategy: this.strategy.name,
+            outcome,
+            waited_ms: Date.now() - startedAt,
+            at: new Date(startedAt).toISOString()
+        };
+        this.emit('challenge', event);
+
+        if (outcome === 'aborted') {
+            throw new ChallengeAbortError(event);
+        }
+        return outcome;
+    }
+
+    /**
+     * Hold all requests until at least `ms` from now
+     */
+    pauseFor(ms: number): void {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    }
+
+    /**
+     * Wait out an active pause; called before every navigation
+     */
+    async waitIfPaused(): Promise<void> {
+        while (Date.now() < this.pausedUntil) {
+            await delay(this.pausedUntil - Date.now());
+        }
+    }
+}
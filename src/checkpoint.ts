@@ -0,0 +1,195 @@
+import { createHash } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { AgentListItem, AgentData, RelatedRecords } from './types';
+import { canonicalProfileUrl, normalizeListItem } from './normalize';
+
+/**
+ * Run parameters a checkpoint is tied to
+ */
+export interface CheckpointParams {
+    list_url: string;
+    limit: number;
+    agents_file: string | null;  // Set when agents come from a file instead of the list
+}
+
+/**
+ * On-disk progress of a single run
+ */
+export interface CheckpointState {
+    params: CheckpointParams;
+    current_page: number;                   // Last list page fully processed
+    list_complete: boolean;                 // Pagination finished
+    list_items: AgentListItem[];
+    completed: Record<string, AgentData>;   // Finished detail records keyed by profile_url
+    related: Record<string, RelatedRecords>;  // Reviews etc. of finished agents keyed by profile_url
+    updated_at: string;
+}
+
+/**
+ * One finished agent, as a line of the checkpoint's agent log
+ */
+interface CheckpointAgentEntry {
+    agent: AgentData;
+    related?: RelatedRecords;
+}
+
+/**
+ * Stores run progress in a JSON file named after a hash of the run parameters,
+ * so a resume never picks up progress from a different search. Finished agents are
+ * appended to an NDJSON log next to it rather than rewriting the whole state per agent;
+ * the log is folded into the JSON file whenever that is rewritten.
+ */
+export class CheckpointStore {
+    private readonly filePath: string;
+    private readonly agentLogPath: string;
+    private state: CheckpointState;
+
+    constructor(dir: string, private readonly params: CheckpointParams) {
+        const key = CheckpointStore.keyFor(params);
+        this.filePath = join(dir, `${key}.json`);
+        this.agentLogPath = join(dir, `${key}.agents.ndjson`);
+        this.state = this.emptyState();
+    }
+
+    /**
+     * Stable key for a set of run parameters
+     */
+    static keyFor(params: CheckpointParams): string {
+        const canonical = JSON.stringify({
+            list_url: params.list_url,
+            limit: params.limit,
+            agents_file: params.agents_file
+        });
+        return createHash('sha1').update(canonical).digest('hex').slice(0, 16);
+    }
+
+    get path(): string {
+        return this.filePath;
+    }
+
+    /**
+     * Load saved progress, or null if there is none for these parameters
+     */
+    load(): CheckpointState | null {
+        if (!existsSync(this.filePath)) return null;
+
+        const saved = JSON.parse(readFileSync(this.filePath, 'utf-8')) as CheckpointState;
+        if (CheckpointStore.keyFor(saved.params) !== CheckpointStore.keyFor(this.params)) {
+            return null;
+        }
+
+        // Agents finished since the JSON file was last written
+        for (const entry of this.readAgentLog()) {
+            saved.completed[entry.agent.profile_url] = entry.agent;
+            if (entry.related) {
+                saved.related = saved.related ?? {};
+                saved.related[entry.agent.profile_url] = entry.related;
+            }
+        }
+
+        // Checkpoints written before related records (or some of their kinds) existed
+        saved.related = saved.related ?? {};
+        for (const related of Object.values(saved.related)) {
+            related.reviews = related.reviews ?? [];
+            related.transactions = related.transactions ?? [];
+            related.team_members = related.team_members ?? [];
+        }
+
+        // Checkpoints written before profile URLs were canonicalized
+        saved.list_items = saved.list_items.map(normalizeListItem);
+        saved.completed = Object.fromEntries(Object.values(saved.completed).map(agent => {
+            const normalized = normalizeListItem(agent);
+            return [normalized.profile_url, normalized];
+        }));
+        saved.related = Object.fromEntries(Object.entries(saved.related).map(([url, related]) => [canonicalProfileUrl(url), related]));
+        this.state = saved;
+        this.flush();
+        return saved;
+    }
+
+    /**
+     * Discard saved progress and start a fresh checkpoint
+     */
+    reset(): void {
+        this.state = this.emptyState();
+        this.flush();
+    }
+
+    /**
+     * Record the agents collected after a list page was processed
+     */
+    recordListPage(page: number, items: AgentListItem[]): void {
+        this.state.current_page = page;
+        this.state.list_items = [...items];
+        this.flush();
+    }
+
+    /**
+     * Record that pagination finished with the final agent list
+     */
+    markListComplete(items: AgentListItem[]): void {
+        this.state.list_items = [...items];
+        this.state.list_complete = true;
+        this.flush();
+    }
+
+    /**
+     * Record a finished detail record and its related records, appending them to the agent log
+     */
+    recordAgent(agent: AgentData, related?: RelatedRecords): void {
+        this.state.completed[agent.profile_url] = agent;
+        if (related) {
+            this.state.related[agent.profile_url] = related;
+        }
+        const entry: CheckpointAgentEntry = related ? { agent, related } : { agent };
+        mkdirSync(dirname(this.agentLogPath), { recursive: true });
+        appendFileSync(this.agentLogPath, `${JSON.stringify(entry)}\n`, 'utf-8');
+    }
+
+    private emptyState(): CheckpointState {
+        return {
+            params: this.params,
+            current_page: 0,
+            list_complete: false,
+            list_items: [],
+            completed: {},
+            related: {},
+            updated_at: new Date().toISOString()
+        };
+    }
+
+    /**
+     * Entries of the agent log. A line torn by a crash mid-append is skipped; its agent
+     * is simply scraped again.
+     */
+    private readAgentLog(): CheckpointAgentEntry[] {
+        if (!existsSync(this.agentLogPath)) return [];
+
+        const entries: CheckpointAgentEntry[] = [];
+        for (const line of readFileSync(this.agentLogPath, 'utf-8').split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                const entry = JSON.parse(line) as CheckpointAgentEntry;
+                if (entry?.agent?.profile_url) entries.push(entry);
+            } catch {
+                // Torn final line
+            }
+        }
+        return entries;
+    }
+
+    /**
+     * Write state atomically (temp file + rename) so a crash never leaves a torn file,
+     * then empty the agent log it now includes. A crash in between only means the log
+     * is replayed over records the file already holds.
+     */
+    private flush(): void {
+        this.state.updated_at = new Date().toISOString();
+        mkdirSync(dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        writeFileSync(tmpPath, JSON.stringify(this.state), 'utf-8');
+        renameSync(tmpPath, this.filePath);
+        writeFileSync(this.agentLogPath, '', 'utf-8');
+    }
+}
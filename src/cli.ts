@@ -0,0 +1,600 @@
+import { parseArgs } from 'util';
+import { OutputTarget, ProfileFieldGroup, ScraperOptions } from './types';
+import { PROFILE_FIELD_GROUPS } from './parsers';
+import { parseOutputSpec } from './sinks';
+import { latestSnapshotPair } from './snapshots';
+import { BatchJob, loadBatchJob } from './batch';
+import { ChallengeStrategyName } from './challenges';
+import { DEFAULT_SCRAPER_OPTIONS, OptionsValidationError, validateScraperOptions } from './config';
+import { LOG_FORMATS, LOG_LEVELS, LogFormat, LogLevel } from './logger';
+import { MAX_RUNNING_JOBS, ServerOptions } from './server';
+import { AGENT_SORT_ORDERS, AGENT_TYPE_FILTERS, AgentSearchQuery, AgentSortOrder, AgentTypeFilter, parseSearchUrl } from './search';
+import { AnalysisFormat, DEFAULT_SCORE_WEIGHTS, SCORE_METRICS, ScoreWeights, analysisFormatFor, parseScoreWeights } from './analyze';
+
+export const USAGE = `Usage: zillow-scraper <command> [options]
+
+Commands:
+  agents                 Scrape agents from the Zillow agent directory (default)
+  diff <old> <new>       Compare two snapshots (or results files)
+  batch <job-file>       Run every search in a JSON or YAML job file
+  analyze <results>      Rank the agents of a results file by a weighted score
+  serve                  Run an HTTP API that queues and runs scrape jobs
+
+Agents options:
+  --location <slug>      Zillow location slug or ZIP (default: ${DEFAULT_SCRAPER_OPTIONS.location})
+  --top-agents           Only list Zillow top agents (default)
+  --all-agents           List all agents, not only top agents
+  --specialty <name>     Only list agents with this specialty (e.g. "Buyer's Agent"), repeatable
+  --language <name>      Only list agents speaking this language, repeatable
+  --min-price <usd>      Only list agents selling homes from this price
+  --max-price <usd>      Only list agents selling homes up to this price
+  --sort <order>         Directory order: ${AGENT_SORT_ORDERS.join(', ')} (default: ${DEFAULT_SCRAPER_OPTIONS.sort})
+  --agent-type <type>    ${AGENT_TYPE_FILTERS.join(', ')}: teams, individual agents or both (default: ${DEFAULT_SCRAPER_OPTIONS.agentType})
+  --url <url>            Search a Zillow agent directory URL copied from the browser
+                         instead of the filter options above
+  --limit <n>            Maximum number of agents (default: ${DEFAULT_SCRAPER_OPTIONS.limit})
+  --out <path>           Output file, repeatable; format from extension (.json, .csv, .ndjson,
+                         .jsonl, .sqlite, .db) or a prefix like csv:path (default: ${DEFAULT_SCRAPER_OPTIONS.outputs[0].path})
+  --concurrency <n>      Maximum detail page workers (default: ${DEFAULT_SCRAPER_OPTIONS.concurrency})
+  --rpm <n>              Global detail requests per minute, 0 for unlimited (default: ${DEFAULT_SCRAPER_OPTIONS.requestsPerMinute})
+  --min-delay <ms>       Minimum random pause before each request (default: ${DEFAULT_SCRAPER_OPTIONS.minDelayMs})
+  --max-delay <ms>       Maximum random pause before each request (default: ${DEFAULT_SCRAPER_OPTIONS.maxDelayMs})
+  --no-adaptive          Keep concurrency fixed instead of backing off on challenges
+  --headless             Run the browser without a window (Zillow may block this)
+  --resume               Continue an interrupted run with the same parameters
+  --checkpoint-dir <dir> Where run checkpoints are kept (default: ${DEFAULT_SCRAPER_OPTIONS.checkpointDir})
+  --retries <n>          Extra attempts for retryable detail failures (default: ${DEFAULT_SCRAPER_OPTIONS.retries})
+  --retry-delay <ms>     Base backoff delay between attempts (default: ${DEFAULT_SCRAPER_OPTIONS.retryDelayMs})
+  --agents-file <path>   Scrape details for agents in a JSON file (e.g. a *.failed.json) instead of the list
+  --snapshot-dir <dir>   Also save a dated snapshot of the results for later diffs
+  --fields <groups>      Comma-separated profile field groups to extract, or "none"
+                         (${PROFILE_FIELD_GROUPS.join(', ')}; default: all)
+  --reviews              Also collect agent reviews into <out>.reviews.json
+  --max-reviews <n>      Reviews collected per agent (default: ${DEFAULT_SCRAPER_OPTIONS.maxReviewsPerAgent})
+  --transactions         Also collect past sales and active listings into <out>.transactions.json
+  --max-transactions <n> Past sales (and listings) collected per agent (default: ${DEFAULT_SCRAPER_OPTIONS.maxTransactionsPerAgent})
+  --team-members         Also output each team member into <out>.team-members.json
+  --expand-teams         Also scrape team member profiles not already in the list
+  --record <dir>         Save every list/profile response to an archive directory
+  --replay <dir>         Serve responses from an archive instead of zillow.com (offline)
+  --challenge <strategy> On a bot challenge: manual (wait for a human), requeue (retry at the end),
+                         pause (hold all requests, then reload) or abort (default: ${DEFAULT_SCRAPER_OPTIONS.challengeStrategy})
+  --challenge-detectors <names>
+                         Comma-separated challenge detectors (${DEFAULT_SCRAPER_OPTIONS.challengeDetectors.join(', ')}; default: all)
+  --challenge-timeout <ms>
+                         How long manual solving may take (default: ${DEFAULT_SCRAPER_OPTIONS.challengeTimeoutMs})
+  --challenge-cooldown <ms>
+                         How long the pause strategy holds requests (default: ${DEFAULT_SCRAPER_OPTIONS.challengeCooldownMs})
+  --sessions <n>         Browser contexts kept open and rotated (default: ${DEFAULT_SCRAPER_OPTIONS.sessionCount})
+  --storage-state <path> Load cookies from this file into new contexts and save them after the run
+  --user-data-dir <dir>  Use a persistent browser profile (one session, no rotation)
+  --proxies <path>       Proxy list, one URL per line, rotated across contexts
+  --user-agents <path>   User agents, one per line, rotated across contexts
+  --max-session-failures <n>
+                         Consecutive failures before a context and its proxy are retired (default: ${DEFAULT_SCRAPER_OPTIONS.maxSessionFailures})
+  --max-drift <percent>  Exit with code 3 when schema drift affects more pages than this (default: ${DEFAULT_SCRAPER_OPTIONS.maxDriftPercent})
+  --log-level <level>    Least severe messages logged: ${LOG_LEVELS.join(', ')} (default: ${DEFAULT_SCRAPER_OPTIONS.logLevel})
+  --log-format <format>  text, json (NDJSON records on stdout) or progress (a progress bar plus
+                         warnings and errors) (default: ${DEFAULT_SCRAPER_OPTIONS.logFormat})
+  --cache <path>         Profile cache file, updated with every scraped profile
+  --refresh              Only re-scrape profiles that are new, stale or changed since they were
+                         cached; reuse the cached details for the rest (needs --cache)
+  --cache-max-age <days> Cached profiles older than this are re-scraped (default: ${DEFAULT_SCRAPER_OPTIONS.cacheMaxAgeDays})
+  -h, --help             Show this help
+
+Batch options:
+  --parallel <n>         Searches run at the same time (default: job file's, or 1)
+  --resume               Continue each search from its checkpoint
+  --log-level <level>    Log level for every search
+  --log-format <format>  Log format for every search
+
+Analyze options:
+  --out <path>           Report file, repeatable: .md, .csv or .html (default: Markdown on stdout)
+  --weights <spec>       Score weights, e.g. sales=0.5,rating=0.2 (${SCORE_METRICS.map(metric => `${metric}=${DEFAULT_SCORE_WEIGHTS[metric]}`).join(',')})
+  --top <n>              Only list the n best-ranked agents
+
+Serve options:
+  --host <host>          Interface to listen on (default: 127.0.0.1)
+  --port <n>             Port to listen on (default: 8080)
+  --jobs-dir <dir>       Where job state, checkpoints and results are kept (default: .jobs)
+  --max-jobs <n>         Scrapes run at the same time (default: 2)
+  --headless             Run the shared browser without a window
+  --log-level <level>    Log level for the server and its jobs
+  --log-format <format>  Log format for the server and its jobs
+
+Diff options:
+  --dir <dir>            Compare the two most recent snapshots in a directory
+  --search <name>        With --dir, the search or location whose snapshots to compare
+                         (default: that of the newest snapshot)
+  --json <path>          Also write the diff as JSON
+  --format <text|json>   What to print on stdout (default: text)
+`;
+
+/**
+ * Parsed command line invocation
+ */
+export type CliCommand =
+    | { command: 'agents'; options: ScraperOptions }
+    | { command: 'diff'; options: DiffOptions }
+    | { command: 'batch'; job: BatchJob }
+    | { command: 'analyze'; options: AnalyzeOptions }
+    | { command: 'serve'; options: ServerOptions; logLevel: LogLevel; logFormat: LogFormat }
+    | { command: 'help' };
+
+/**
+ * Options for the `diff` command
+ */
+export interface DiffOptions {
+    from: string;
+    to: string;
+    jsonPath: string | null;
+    format: 'text' | 'json';
+}
+
+/**
+ * Options for the `analyze` command
+ */
+export interface AnalyzeOptions {
+    input: string;
+    outputs: { path: string; format: AnalysisFormat }[];   // Empty = Markdown on stdout
+    weights: ScoreWeights;
+    top: number | null;
+}
+
+/**
+ * Parse an integer option value, recording a validation issue if it is not numeric
+ */
+function parseIntOption<T extends number | null>(name: string, value: string | undefined, fallback: T, issues: string[]): number | T {
+    if (value === undefined) return fallback;
+
+    if (!/^-?\d+$/.test(value.trim())) {
+        issues.push(`--${name} expects an integer (got "${value}")`);
+        return fallback;
+    }
+    return parseInt(value, 10);
+}
+
+/**
+ * Parse repeated --out specs, recording a validation issue for each unusable one
+ */
+function parseOutputs(specs: string[] | undefined, issues: string[]): OutputTarget[] {
+    if (!specs || specs.length === 0) return DEFAULT_SCRAPER_OPTIONS.outputs;
+
+    const outputs: OutputTarget[] = [];
+    for (const spec of specs) {
+        try {
+            outputs.push(parseOutputSpec(spec));
+        } catch (err) {
+            issues.push(`--out ${(err as Error).message}`);
+        }
+    }
+    return outputs;
+}
+
+/**
+ * Parse a comma-separated --fields list ("none" selects no optional groups)
+ */
+function parseFieldGroups(value: string | undefined): ProfileFieldGroup[] {
+    if (value === undefined) return DEFAULT_SCRAPER_OPTIONS.fieldGroups;
+    if (value.trim() === 'none') return [];
+    return value.split(',').map(group => group.trim()).filter(Boolean) as ProfileFieldGroup[];
+}
+
+/**
+ * Flags describing the search, which a pasted --url replaces
+ */
+const SEARCH_FILTER_FLAGS = ['location', 'top-agents', 'all-agents', 'specialty', 'language', 'min-price', 'max-price', 'sort', 'agent-type'] as const;
+
+/**
+ * Parse options for the `agents` command into validated ScraperOptions
+ */
+function parseAgentsArgs(args: string[]): CliCommand {
+    let values;
+    try {
+        ({ values } = parseArgs({
+            args,
+            strict: true,
+            allowPositionals: false,
+            options: {
+                location: { type: 'string' },
+                'top-agents': { type: 'boolean' },
+                'all-agents': { type: 'boolean' },
+                specialty: { type: 'string', multiple: true },
+                language: { type: 'string', multiple: true },
+                'min-price': { type: 'string' },
+                'max-price': { type: 'string' },
+                sort: { type: 'string' },
+                'agent-type': { type: 'string' },
+                url: { type: 'string' },
+                limit: { type: 'string' },
+                out: { type: 'string', multiple: true },
+                concurrency: { type: 'string' },
+                rpm: { type: 'string' },
+                'min-delay': { type: 'string' },
+                'max-delay': { type: 'string' },
+                'no-adaptive': { type: 'boolean' },
+                headless: { type: 'boolean' },
+                resume: { type: 'boolean' },
+                'checkpoint-dir': { type: 'string' },
+                retries: { type: 'string' },
+                'retry-delay': { type: 'string' },
+                'agents-file': { type: 'string' },
+                'snapshot-dir': { type: 'string' },
+                fields: { type: 'string' },
+                reviews: { type: 'boolean' },
+                'max-reviews': { type: 'string' },
+                transactions: { type: 'boolean' },
+                'max-transactions': { type: 'string' },
+                'team-members': { type: 'boolean' },
+                'expand-teams': { type: 'boolean' },
+                record: { type: 'string' },
+                replay: { type: 'string' },
+                'max-drift': { type: 'string' },
+                challenge: { type: 'string' },
+                sessions: { type: 'string' },
+                'storage-state': { type: 'string' },
+                'user-data-dir': { type: 'string' },
+                proxies: { type: 'string' },
+                'user-agents': { type: 'string' },
+                'max-session-failures': { type: 'string' },
+                'challenge-detectors': { type: 'string' },
+                'challenge-timeout': { type: 'string' },
+                'challenge-cooldown': { type: 'string' },
+                'log-level': { type: 'string' },
+                'log-format': { type: 'string' },
+                cache: { type: 'string' },
+                refresh: { type: 'boolean' },
+                'cache-max-age': { type: 'string' },
+                help: { type: 'boolean', short: 'h' }
+            }
+        }));
+    } catch (err) {
+        throw new OptionsValidationError([(err as Error).message]);
+    }
+
+    if (values.help) return { command: 'help' };
+
+    const issues: string[] = [];
+    if (values['top-agents'] && values['all-agents']) {
+        issues.push('--top-agents and --all-agents cannot be combined');
+    }
+
+    let search: AgentSearchQuery = {
+        location: values.location ?? DEFAULT_SCRAPER_OPTIONS.location,
+        topAgents: values['all-agents'] ? false : DEFAULT_SCRAPER_OPTIONS.topAgents,
+        specialties: values.specialty ?? DEFAULT_SCRAPER_OPTIONS.specialties,
+        languages: values.language ?? DEFAULT_SCRAPER_OPTIONS.languages,
+        minPrice: parseIntOption('min-price', values['min-price'], DEFAULT_SCRAPER_OPTIONS.minPrice, issues),
+        maxPrice: parseIntOption('max-price', values['max-price'], DEFAULT_SCRAPER_OPTIONS.maxPrice, issues),
+        sort: (values.sort ?? DEFAULT_SCRAPER_OPTIONS.sort) as AgentSortOrder,
+        agentType: (values['agent-type'] ?? DEFAULT_SCRAPER_OPTIONS.agentType) as AgentTypeFilter
+    };
+    if (values.url !== undefined) {
+        const filterFlags = SEARCH_FILTER_FLAGS.filter(flag => values[flag] !== undefined);
+        if (filterFlags.length > 0) {
+            issues.push(`--url cannot be combined with ${filterFlags.map(flag => `--${flag}`).join(', ')}`);
+        }
+        try {
+            search = parseSearchUrl(values.url);
+        } catch (err) {
+            issues.push((err as Error).message);
+        }
+    }
+
+    const options: ScraperOptions = {
+        ...search,
+        limit: parseIntOption('limit', values.limit, DEFAULT_SCRAPER_OPTIONS.limit, issues),
+        outputs: parseOutputs(values.out, issues),
+        concurrency: parseIntOption('concurrency', values.concurrency, DEFAULT_SCRAPER_OPTIONS.concurrency, issues),
+        requestsPerMinute: parseIntOption('rpm', values.rpm, DEFAULT_SCRAPER_OPTIONS.requestsPerMinute, issues),
+        minDelayMs: parseIntOption('min-delay', values['min-delay'], DEFAULT_SCRAPER_OPTIONS.minDelayMs, issues),
+        maxDelayMs: parseIntOption('max-delay', values['max-delay'], DEFAULT_SCRAPER_OPTIONS.maxDelayMs, issues),
+        adaptiveConcurrency: values['no-adaptive'] ? false : DEFAULT_SCRAPER_OPTIONS.adaptiveConcurrency,
+        headless: values.headless ?? DEFAULT_SCRAPER_OPTIONS.headless,
+        resume: values.resume ?? DEFAULT_SCRAPER_OPTIONS.resume,
+        checkpointDir: values['checkpoint-dir'] ?? DEFAULT_SCRAPER_OPTIONS.checkpointDir,
+        retries: parseIntOption('retries', values.retries, DEFAULT_SCRAPER_OPTIONS.retries, issues),
+        retryDelayMs: parseIntOption('retry-delay', values['retry-delay'], DEFAULT_SCRAPER_OPTIONS.retryDelayMs, issues),
+        agentsFile: values['agents-file'] ?? DEFAULT_SCRAPER_OPTIONS.agentsFile,
+        snapshotDir: values['snapshot-dir'] ?? DEFAULT_SCRAPER_OPTIONS.snapshotDir,
+        fieldGroups: parseFieldGroups(values.fields),
+        reviews: values.reviews ?? DEFAULT_SCRAPER_OPTIONS.reviews,
+        maxReviewsPerAgent: parseIntOption('max-reviews', values['max-reviews'], DEFAULT_SCRAPER_OPTIONS.maxReviewsPerAgent, issues),
+        transactions: values.transactions ?? DEFAULT_SCRAPER_OPTIONS.transactions,
+        maxTransactionsPerAgent: parseIntOption('max-transactions', values['max-transactions'], DEFAULT_SCRAPER_OPTIONS.maxTransactionsPerAgent, issues),
+        teamMembers: values['team-members'] ?? DEFAULT_SCRAPER_OPTIONS.teamMembers,
+        expandTeams: values['expand-teams'] ?? DEFAULT_SCRAPER_OPTIONS.expandTeams,
+        market: DEFAULT_SCRAPER_OPTIONS.market,
+        recordDir: values.record ?? DEFAULT_SCRAPER_OPTIONS.recordDir,
+        replayDir: values.replay ?? DEFAULT_SCRAPER_OPTIONS.replayDir,
+        maxDriftPercent: parseIntOption('max-drift', values['max-drift'], DEFAULT_SCRAPER_OPTIONS.maxDriftPercent, issues),
+        challengeStrategy: (values.challenge ?? DEFAULT_SCRAPER_OPTIONS.challengeStrategy) as ChallengeStrategyName,
+        challengeDetectors: values['challenge-detectors']?.split(',').map(name => name.trim()).filter(Boolean)
+            ?? DEFAULT_SCRAPER_OPTIONS.challengeDetectors,
+        challengeTimeoutMs: parseIntOption('challenge-timeout', values['challenge-timeout'], DEFAULT_SCRAPER_OPTIONS.challengeTimeoutMs, issues),
+        challengeCooldownMs: parseIntOption('challenge-cooldown', values['challenge-cooldown'], DEFAULT_SCRAPER_OPTIONS.challengeCooldownMs, issues),
+        sessionCount: parseIntOption('sessions', values.sessions, DEFAULT_SCRAPER_OPTIONS.sessionCount, issues),
+        storageStatePath: values['storage-state'] ?? DEFAULT_SCRAPER_OPTIONS.storageStatePath,
+        userDataDir: values['user-data-dir'] ?? DEFAULT_SCRAPER_OPTIONS.userDataDir,
+        proxiesFile: values.proxies ?? DEFAULT_SCRAPER_OPTIONS.proxiesFile,
+        userAgentsFile: values['user-agents'] ?? DEFAULT_SCRAPER_OPTIONS.userAgentsFile,
+        maxSessionFailures: parseIntOption('max-session-failures', values['max-session-failures'], DEFAULT_SCRAPER_OPTIONS.maxSessionFailures, issues),
+        logLevel: (values['log-level'] ?? DEFAULT_SCRAPER_OPTIONS.logLevel) as LogLevel,
+        logFormat: (values['log-format'] ?? DEFAULT_SCRAPER_OPTIONS.logFormat) as LogFormat,
+        cachePath: values.cache ?? DEFAULT_SCRAPER_OPTIONS.cachePath,
+        refresh: values.refresh ?? DEFAULT_SCRAPER_OPTIONS.refresh,
+        cacheMaxAgeDays: parseIntOption('cache-max-age', values['cache-max-age'], DEFAULT_SCRAPER_OPTIONS.cacheMaxAgeDays, issues)
+    };
+
+    // Report argument parsing and value validation problems together
+    try {
+        validateScraperOptions(options);
+    } catch (err) {
+        if (!(err instanceof OptionsValidationError)) throw err;
+        issues.push(...err.issues);
+    }
+
+    if (issues.length > 0) {
+        throw new OptionsValidationError(issues);
+    }
+
+    return { command: 'agents', options };
+}
+
+/**
+ * Parse options for the `diff` command
+ */
+function parseDiffArgs(args: string[]): CliCommand {
+    let values;
+    let positionals: string[];
+    try {
+        ({ values, positionals } = parseArgs({
+            args,
+            strict: true,
+            allowPositionals: true,
+            options: {
+                dir: { type: 'string' },
+                search: { type: 'string' },
+                json: { type: 'string' },
+                format: { type: 'string' },
+                help: { type: 'boolean', short: 'h' }
+            }
+        }));
+    } catch (err) {
+        throw new OptionsValidationError([(err as Error).message]);
+    }
+
+    if (values.help) return { command: 'help' };
+
+    const issues: string[] = [];
+    let from = positionals[0];
+    let to = positionals[1];
+
+    if (values.dir) {
+        if (positionals.length > 0) {
+            issues.push('diff takes either --dir or two snapshot paths, not both');
+        } else {
+            try {
+                [from, to] = latestSnapshotPair(values.dir, values.search);
+            } catch (err) {
+                issues.push((err as Error).message);
+            }
+        }
+    } else if (positionals.length !== 2) {
+        issues.push(`diff expects two snapshot paths (got ${positionals.length})`);
+    }
+    if (values.search !== undefined && !values.dir) {
+        issues.push('--search only applies with --dir');
+    }
+
+    const format = values.format ?? 'text';
+    if (format !== 'text' && format !== 'json') {
+        issues.push(`--format must be "text" or "json" (got "${format}")`);
+    }
+
+    if (issues.length > 0) {
+        throw new OptionsValidationError(issues);
+    }
+
+    return {
+        command: 'diff',
+        options: { from, to, jsonPath: values.json ?? null, format: format as DiffOptions['format'] }
+    };
+}
+
+/**
+ * Parse options for the `batch` command and load its job file
+ */
+function parseBatchArgs(args: string[]): CliCommand {
+    let values;
+    let positionals: string[];
+    try {
+        ({ values, positionals } = parseArgs({
+            args,
+            strict: true,
+            allowPositionals: true,
+            options: {
+                parallel: { type: 'string' },
+                resume: { type: 'boolean' },
+                'log-level': { type: 'string' },
+                'log-format': { type: 'string' },
+                help: { type: 'boolean', short: 'h' }
+            }
+        }));
+    } catch (err) {
+        throw new OptionsValidationError([(err as Error).message]);
+    }
+
+    if (values.help) return { command: 'help' };
+
+    const issues: string[] = [];
+    if (positionals.length !== 1) {
+        issues.push(`batch expects one job file (got ${positionals.length})`);
+    }
+    const parallel = values.parallel === undefined
+        ? undefined
+        : parseIntOption('parallel', values.parallel, 1, issues);
+
+    if (issues.length > 0) {
+        throw new OptionsValidationError(issues);
+    }
+
+    return {
+        command: 'batch',
+        job: loadBatchJob(positionals[0], {
+            parallel,
+            resume: values.resume,
+            logLevel: values['log-level'] as LogLevel | undefined,
+            logFormat: values['log-format'] as LogFormat | undefined
+        })
+    };
+}
+
+/**
+ * Parse options for the `analyze` command
+ */
+function parseAnalyzeArgs(args: string[]): CliCommand {
+    let values;
+    let positionals: string[];
+    try {
+        ({ values, positionals } = parseArgs({
+            args,
+            strict: true,
+            allowPositionals: true,
+            options: {
+                out: { type: 'string', multiple: true },
+                weights: { type: 'string' },
+                top: { type: 'string' },
+                help: { type: 'boolean', short: 'h' }
+            }
+        }));
+    } catch (err) {
+        throw new OptionsValidationError([(err as Error).message]);
+    }
+
+    if (values.help) return { command: 'help' };
+
+    const issues: string[] = [];
+    if (positionals.length !== 1) {
+        issues.push(`analyze expects one results file (got ${positionals.length})`);
+    }
+
+    const outputs: AnalyzeOptions['outputs'] = [];
+    for (const path of values.out ?? []) {
+        try {
+            outputs.push({ path, format: analysisFormatFor(path) });
+        } catch (err) {
+            issues.push(`--out ${(err as Error).message}`);
+        }
+    }
+
+    let weights = DEFAULT_SCORE_WEIGHTS;
+    if (values.weights !== undefined) {
+        try {
+            weights = parseScoreWeights(values.weights);
+        } catch (err) {
+            issues.push(`--weights ${(err as Error).message}`);
+        }
+    }
+
+    const top = values.top === undefined ? null : parseIntOption('top', values.top, 0, issues);
+    if (top !== null && top < 1) {
+        issues.push(`--top must be a positive integer (got ${top})`);
+    }
+
+    if (issues.length > 0) {
+        throw new OptionsValidationError(issues);
+    }
+
+    return { command: 'analyze', options: { input: positionals[0], outputs, weights, top } };
+}
+
+/**
+ * Parse options for the `serve` command
+ */
+function parseServeArgs(args: string[]): CliCommand {
+    let values;
+    try {
+        ({ values } = parseArgs({
+            args,
+            strict: true,
+            allowPositionals: false,
+            options: {
+                host: { type: 'string' },
+                port: { type: 'string' },
+                'jobs-dir': { type: 'string' },
+                'max-jobs': { type: 'string' },
+                headless: { type: 'boolean' },
+                'log-level': { type: 'string' },
+                'log-format': { type: 'string' },
+                help: { type: 'boolean', short: 'h' }
+            }
+        }));
+    } catch (err) {
+        throw new OptionsValidationError([(err as Error).message]);
+    }
+
+    if (values.help) return { command: 'help' };
+
+    const issues: string[] = [];
+    const options: ServerOptions = {
+        host: values.host ?? '127.0.0.1',
+        port: parseIntOption('port', values.port, 8080, issues),
+        jobsDir: values['jobs-dir'] ?? '.jobs',
+        maxRunning: parseIntOption('max-jobs', values['max-jobs'], 2, issues),
+        headless: values.headless ?? false
+    };
+    const logLevel = (values['log-level'] ?? DEFAULT_SCRAPER_OPTIONS.logLevel) as LogLevel;
+    const logFormat = (values['log-format'] ?? DEFAULT_SCRAPER_OPTIONS.logFormat) as LogFormat;
+
+    if (options.port < 0 || options.port > 65535) {
+        issues.push(`--port must be between 0 and 65535 (got ${options.port})`);
+    }
+    if (options.maxRunning < 1 || options.maxRunning > MAX_RUNNING_JOBS) {
+        issues.push(`--max-jobs must be between 1 and ${MAX_RUNNING_JOBS} (got ${options.maxRunning})`);
+    }
+    if (!options.jobsDir.trim()) {
+        issues.push('--jobs-dir must not be empty');
+    }
+    if (!LOG_LEVELS.includes(logLevel)) {
+        issues.push(`unknown log level "${logLevel}"; choose from ${LOG_LEVELS.join(', ')}`);
+    }
+    if (!LOG_FORMATS.includes(logFormat)) {
+        issues.push(`unknown log format "${logFormat}"; choose from ${LOG_FORMATS.join(', ')}`);
+    }
+
+    if (issues.length > 0) {
+        throw new OptionsValidationError(issues);
+    }
+
+    return { command: 'serve', options, logLevel, logFormat };
+}
+
+/**
+ * Parse process arguments (without the node and script entries)
+ */
+export function parseCli(argv: string[]): CliCommand {
+    const [first, ...rest] = argv;
+
+    // No command or a bare option list runs the default `agents` command
+    if (first === undefined || first.startsWith('-')) {
+        return parseAgentsArgs(argv);
+    }
+
+    switch (first) {
+        case 'agents':
+            return parseAgentsArgs(rest);
+        case 'diff':
+            return parseDiffArgs(rest);
+        case 'batch':
+            return parseBatchArgs(rest);
+        case 'analyze':
+            return parseAnalyzeArgs(rest);
+        case 'serve':
+            return parseServeArgs(rest);
+        case 'help':
+            return { command: 'help' };
+        default:
+            throw new OptionsValidationError([`unknown command "${first}"`]);
+    }
+}
@@ -0,0 +1,321 @@
+import { ScraperOptions } from './types';
+import { PROFILE_FIELD_GROUPS } from './parsers';
+import { CHALLENGE_DETECTORS, CHALLENGE_STRATEGIES, ChallengeStrategyName } from './challenges';
+import { LOG_FORMATS, LOG_LEVELS } from './logger';
+import { OUTPUT_FORMATS } from './sinks';
+import { AGENT_SORT_ORDERS, AGENT_TYPE_FILTERS, pickSearchQuery, validateSearchQuery } from './search';
+
+/**
+ * Default options (Seattle top agents, matching the original hard-coded run)
+ */
+export const DEFAULT_SCRAPER_OPTIONS: ScraperOptions = {
+    location: 'seattle-wa',
+    topAgents: true,
+    specialties: [],
+    languages: [],
+    minPrice: null,
+    maxPrice: null,
+    sort: 'relevance',
+    agentType: 'any',
+    limit: 1000,
+    outputs: [{ path: 'output.json', format: 'json' }],
+    concurrency: 5,
+    requestsPerMinute: 40,
+    minDelayMs: 500,
+    maxDelayMs: 2000,
+    adaptiveConcurrency: true,
+    headless: false,
+    resume: false,
+    checkpointDir: '.checkpoints',
+    retries: 2,
+    retryDelayMs: 2000,
+    agentsFile: null,
+    snapshotDir: null,
+    fieldGroups: PROFILE_FIELD_GROUPS,
+    reviews: false,
+    maxReviewsPerAgent: 50,
+    transactions: false,
+    maxTransactionsPerAgent: 100,
+    teamMembers: false,
+    expandTeams: false,
+    market: null,
+    recordDir: null,
+    replayDir: null,
+    maxDriftPercent: 10,
+    challengeStrategy: 'manual',
+    challengeDetectors: Object.keys(CHALLENGE_DETECTORS),
+    challengeTimeoutMs: 300000,
+    challengeCooldownMs: 120000,
+    sessionCount: 3,
+    storageStatePath: null,
+    userDataDir: null,
+    proxiesFile: null,
+    userAgentsFile: null,
+    maxSessionFailures: 3,
+    logLevel: 'info',
+    logFormat: 'text',
+    cachePath: null,
+    refresh: false,
+    cacheMaxAgeDays: 7
+};
+
+const MAX_CONCURRENCY = 20;
+const MAX_RETRIES = 10;
+const MAX_SESSIONS = 20;
+
+/**
+ * Raised when scraper options fail validation
+ */
+export class OptionsValidationError extends Error {
+    constructor(public readonly issues: string[]) {
+        super(`Invalid options:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+        this.name = 'OptionsValidationError';
+    }
+}
+
+/**
+ * Check that a value read from a file or request has the type an option takes
+ */
+interface OptionType<T> {
+    expected: string;
+    test: (value: unknown) => value is T;
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const STRING: OptionType<string> = { expected: 'a string', test: isString };
+const NULLABLE_STRING: OptionType<string | null> = {
+    expected: 'a string or null',
+    test: (value): value is string | null => value === null || isString(value)
+};
+const BOOLEAN: OptionType<boolean> = { expected: 'true or false', test: (value): value is boolean => typeof value === 'boolean' };
+const NUMBER: OptionType<number> = { expected: 'a number', test: isNumber };
+const NULLABLE_NUMBER: OptionType<number | null> = {
+    expected: 'a number or null',
+    test: (value): value is number | null => value === null || isNumber(value)
+};
+const STRING_LIST: OptionType<string[]> = {
+    expected: 'a list of strings',
+    test: (value): value is string[] => Array.isArray(value) && value.every(isString)
+};
+
+function oneOf<T extends string>(choices: readonly T[]): OptionType<T> {
+    return {
+        expected: `one of ${choices.join(', ')}`,
+        test: (value): value is T => (choices as readonly unknown[]).includes(value)
+    };
+}
+
+function listOf<T extends string>(choices: readonly T[]): OptionType<T[]> {
+    return {
+        expected: `a list of ${choices.join(', ')}`,
+        test: (value): value is T[] => Array.isArray(value) && value.every(item => (choices as readonly unknown[]).includes(item))
+    };
+}
+
+/**
+ * The type each option takes. Ranges and rules between options are left to validateScraperOptions.
+ */
+const OPTION_TYPES: { [K in keyof ScraperOptions]: OptionType<ScraperOptions[K]> } = {
+    location: STRING,
+    topAgents: BOOLEAN,
+    specialties: STRING_LIST,
+    languages: STRING_LIST,
+    minPrice: NULLABLE_NUMBER,
+    maxPrice: NULLABLE_NUMBER,
+    sort: oneOf(AGENT_SORT_ORDERS),
+    agentType: oneOf(AGENT_TYPE_FILTERS),
+    limit: NUMBER,
+    outputs: {
+        expected: 'a list of { path, format } outputs',
+        test: (value): value is ScraperOptions['outputs'] => Array.isArray(value) && value.every(output =>
+            isString(output?.path) && (OUTPUT_FORMATS as unknown[]).includes(output?.format))
+    },
+    concurrency: NUMBER,
+    requestsPerMinute: NUMBER,
+    minDelayMs: NUMBER,
+    maxDelayMs: NUMBER,
+    adaptiveConcurrency: BOOLEAN,
+    headless: BOOLEAN,
+    resume: BOOLEAN,
+    checkpointDir: STRING,
+    retries: NUMBER,
+    retryDelayMs: NUMBER,
+    agentsFile: NULLABLE_STRING,
+    snapshotDir: NULLABLE_STRING,
+    fieldGroups: listOf(PROFILE_FIELD_GROUPS),
+    reviews: BOOLEAN,
+    maxReviewsPerAgent: NUMBER,
+    transactions: BOOLEAN,
+    maxTransactionsPerAgent: NUMBER,
+    teamMembers: BOOLEAN,
+    expandTeams: BOOLEAN,
+    market: NULLABLE_STRING,
+    recordDir: NULLABLE_STRING,
+    replayDir: NULLABLE_STRING,
+    maxDriftPercent: NUMBER,
+    challengeStrategy: oneOf(Object.keys(CHALLENGE_STRATEGIES) as ChallengeStrategyName[]),
+    challengeDetectors: STRING_LIST,
+    challengeTimeoutMs: NUMBER,
+    challengeCooldownMs: NUMBER,
+    sessionCount: NUMBER,
+    storageStatePath: NULLABLE_STRING,
+    userDataDir: NULLABLE_STRING,
+    proxiesFile: NULLABLE_STRING,
+    userAgentsFile: NULLABLE_STRING,
+    maxSessionFailures: NUMBER,
+    logLevel: oneOf(LOG_LEVELS),
+    logFormat: oneOf(LOG_FORMATS),
+    cachePath: NULLABLE_STRING,
+    refresh: BOOLEAN,
+    cacheMaxAgeDays: NUMBER
+};
+
+/**
+ * Copy the option keys among `keys` from an untyped source (a job file section or a
+ * request body) into typed options. Keys outside `keys` are left to the caller; values
+ * of the wrong type are recorded in `issues` and not copied.
+ */
+export function pickScraperOptions(
+    source: Record<string, unknown>,
+    keys: readonly (keyof ScraperOptions)[],
+    issues: string[]
+): Partial<ScraperOptions> {
+    const options: Partial<ScraperOptions> = {};
+    const copy = <K extends keyof ScraperOptions>(key: K, value: unknown): void => {
+        const type: OptionType<ScraperOptions[K]> = OPTION_TYPES[key];
+        if (type.test(value)) {
+            options[key] = value;
+        } else {
+            issues.push(`${key} must be ${type.expected} (got ${JSON.stringify(value)})`);
+        }
+    };
+
+    for (const key of keys) {
+        if (Object.prototype.hasOwnProperty.call(source, key)) {
+            copy(key, source[key]);
+        }
+    }
+    return options;
+}
+
+/**
+ * Validate scraper options, throwing OptionsValidationError listing every problem
+ */
+export function validateScraperOptions(options: ScraperOptions): ScraperOptions {
+    const issues: string[] = [];
+
+    issues.push(...validateSearchQuery(pickSearchQuery(options)));
+
+    if (!Number.isInteger(options.limit) || options.limit < 1) {
+        issues.push(`limit must be a positive integer (got ${options.limit})`);
+    }
+
+    if (!Number.isInteger(options.concurrency) || options.concurrency < 1 || options.concurrency > MAX_CONCURRENCY) {
+        issues.push(`concurrency must be an integer between 1 and ${MAX_CONCURRENCY} (got ${options.concurrency})`);
+    }
+
+    if (options.outputs.length === 0) {
+        issues.push('at least one output is required');
+    }
+
+    const outputPaths = new Set<string>();
+    for (const output of options.outputs) {
+        if (!output.path.trim()) {
+            issues.push('output path must not be empty');
+        } else if (outputPaths.has(output.path)) {
+            issues.push(`output "${output.path}" is listed more than once`);
+        }
+        outputPaths.add(output.path);
+    }
+
+    if (!Number.isInteger(options.requestsPerMinute) || options.requestsPerMinute < 0) {
+        issues.push(`requests per minute must be a non-negative integer (got ${options.requestsPerMinute})`);
+    }
+
+    if (!Number.isInteger(options.minDelayMs) || !Number.isInteger(options.maxDelayMs) ||
+        options.minDelayMs < 0 || options.maxDelayMs < options.minDelayMs) {
+        issues.push(`request delay must satisfy 0 <= min <= max (got ${options.minDelayMs}-${options.maxDelayMs}ms)`);
+    }
+
+    if (!Number.isInteger(options.retries) || options.retries < 0 || options.retries > MAX_RETRIES) {
+        issues.push(`retries must be an integer between 0 and ${MAX_RETRIES} (got ${options.retries})`);
+    }
+
+    if (!Number.isInteger(options.retryDelayMs) || options.retryDelayMs < 0) {
+        issues.push(`retry delay must be a non-negative number of milliseconds (got ${options.retryDelayMs})`);
+    }
+
+    if (!Number.isInteger(options.maxReviewsPerAgent) || options.maxReviewsPerAgent < 1) {
+        issues.push(`max reviews per agent must be a positive integer (got ${options.maxReviewsPerAgent})`);
+    }
+
+    if (!Number.isInteger(options.maxTransactionsPerAgent) || options.maxTransactionsPerAgent < 1) {
+        issues.push(`max transactions per agent must be a positive integer (got ${options.maxTransactionsPerAgent})`);
+    }
+
+    const unknownGroups = options.fieldGroups.filter(group => !PROFILE_FIELD_GROUPS.includes(group));
+    if (unknownGroups.length > 0) {
+        issues.push(`unknown field group(s) ${unknownGroups.join(', ')}; choose from ${PROFILE_FIELD_GROUPS.join(', ')}`);
+    }
+
+    if (!Number.isInteger(options.maxDriftPercent) || options.maxDriftPercent < 0 || options.maxDriftPercent > 100) {
+        issues.push(`max drift must be an integer percentage between 0 and 100 (got ${options.maxDriftPercent})`);
+    }
+
+    if (!Object.keys(CHALLENGE_STRATEGIES).includes(options.challengeStrategy)) {
+        issues.push(`unknown challenge strategy "${options.challengeStrategy}"; choose from ${Object.keys(CHALLENGE_STRATEGIES).join(', ')}`);
+    }
+
+    const unknownDetectors = options.challengeDetectors.filter(name => !CHALLENGE_DETECTORS[name]);
+    if (unknownDetectors.length > 0) {
+        issues.push(`unknown challenge detector(s) ${unknownDetectors.join(', ')}; choose from ${Object.keys(CHALLENGE_DETECTORS).join(', ')}`);
+    }
+
+    if (!Number.isInteger(options.challengeTimeoutMs) || options.challengeTimeoutMs < 1) {
+        issues.push(`challenge timeout must be a positive number of milliseconds (got ${options.challengeTimeoutMs})`);
+    }
+
+    if (!Number.isInteger(options.challengeCooldownMs) || options.challengeCooldownMs < 0) {
+        issues.push(`challenge cool-down must be a non-negative number of milliseconds (got ${options.challengeCooldownMs})`);
+    }
+
+    if (!Number.isInteger(options.sessionCount) || options.sessionCount < 1 || options.sessionCount > MAX_SESSIONS) {
+        issues.push(`sessions must be an integer between 1 and ${MAX_SESSIONS} (got ${options.sessionCount})`);
+    }
+
+    if (!Number.isInteger(options.maxSessionFailures) || options.maxSessionFailures < 1) {
+        issues.push(`max session failures must be a positive integer (got ${options.maxSessionFailures})`);
+    }
+
+    if (!LOG_LEVELS.includes(options.logLevel)) {
+        issues.push(`unknown log level "${options.logLevel}"; choose from ${LOG_LEVELS.join(', ')}`);
+    }
+
+    if (!LOG_FORMATS.includes(options.logFormat)) {
+        issues.push(`unknown log format "${options.logFormat}"; choose from ${LOG_FORMATS.join(', ')}`);
+    }
+
+    if (options.recordDir && options.replayDir) {
+        issues.push('record and replay cannot be combined');
+    }
+
+    if (options.refresh && !options.cachePath) {
+        issues.push('refresh needs a profile cache file (cachePath / --cache)');
+    }
+
+    if (!Number.isInteger(options.cacheMaxAgeDays) || options.cacheMaxAgeDays < 0) {
+        issues.push(`cache max age must be a non-negative number of days (got ${options.cacheMaxAgeDays})`);
+    }
+
+    if (!options.checkpointDir.trim()) {
+        issues.push('checkpoint directory must not be empty');
+    }
+
+    if (issues.length > 0) {
+        throw new OptionsValidationError(issues);
+    }
+
+    return options;
+}
@@ -0,0 +1,60 @@
+/**
+ * Error classification for navigation and extraction failures
+ */
+
+export type ScrapeErrorKind =
+    | 'timeout'          // Navigation or wait exceeded its timeout
+    | 'http_error'       // Page answered with an HTTP error status
+    | 'bot_challenge'    // Bot protection wall was not cleared
+    | 'missing_json'     // No usable __NEXT_DATA__ on the page
+    | 'schema_mismatch'  // __NEXT_DATA__ present but not in the expected shape
+    | 'unknown';
+
+/**
+ * Failure while scraping a page, tagged with its kind
+ */
+export class ScrapeError extends Error {
+    constructor(
+        public readonly kind: ScrapeErrorKind,
+        message: string,
+        public readonly status: number | null = null
+    ) {
+        super(message);
+        this.name = 'ScrapeError';
+    }
+
+    /**
+     * Whether trying again later might succeed
+     */
+    get retryable(): boolean {
+        switch (this.kind) {
+            case 'http_error':
+                // 403/429 are usually rate limiting, 5xx are transient
+                return this.status === 403 || this.status === 429 || (this.status !== null && this.status >= 500);
+            case 'schema_mismatch':
+                return false;
+            default:
+                return true;
+        }
+    }
+}
+
+/**
+ * Map any thrown value to a ScrapeError
+ */
+export function classifyError(err: unknown): ScrapeError {
+    if (err instanceof ScrapeError) return err;
+
+    const error = err instanceof Error ? err : new Error(String(err));
+
+    // Playwright raises errors named TimeoutError for goto/waitFor timeouts
+    if (error.name === 'TimeoutError') {
+        return new ScrapeError('timeout', error.message.split('\n')[0]);
+    }
+
+    if (error instanceof SyntaxError) {
+        return new ScrapeError('missing_json', `Malformed __NEXT_DATA__ JSON: ${error.message}`);
+    }
+
+    return new ScrapeError('unknown', error.message.split('\n')[0]);
+}
@@ -1,45 +1,402 @@
-import { writeFileSync } from 'fs';
-import { join } from 'path';
-import { ZillowScraper } from './scraper';
+#!/usr/bin/env node
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { RunAbortedError, ZillowScraper } from './scraper';
+import { AnalyzeOptions, DiffOptions, parseCli, USAGE } from './cli';
+import { OptionsValidationError } from './config';
+import { AgentData, ScraperOptions } from './types';
+import { siblingPath } from './utils';
+import { formatReportSummary } from './report';
+import { SchemaDriftError, formatDriftReport } from './schemas';
+import { createSnapshot, diffSnapshots, formatDiffSummary, loadSnapshot, saveSnapshot } from './snapshots';
+import { BatchJob, combineBatchResults, runBatch } from './batch';
+import { createSink } from './sinks';
+import { Logger, defaultLogger } from './logger';
+import { JobQueue } from './jobs';
+import { ServerOptions, createJobServer } from './server';
+import { analyzeAgents, formatAnalysisCsv, formatAnalysisHtml, formatAnalysisMarkdown, formatMarketsCsv, readResultsFile } from './analyze';
+
+// Library API: the CLI below is one consumer of it
+export { ZillowScraper, RunAbortedError } from './scraper';
+export type { AgentEvent, DoneEvent, ListPageEvent, RunOptions, ScrapeErrorEvent, ScraperEvents } from './scraper';
+export * from './types';
+export { DEFAULT_SCRAPER_OPTIONS, OptionsValidationError, validateScraperOptions } from './config';
+export { ScrapeError } from './errors';
+export type { ScrapeErrorKind } from './errors';
+export { ChallengeAbortError } from './challenges';
+export type { ChallengeDetector, ChallengeEvent, ChallengeOutcome, ChallengeStrategyName } from './challenges';
+export { SchemaDriftError } from './schemas';
+export type { SchemaDriftReport } from './schemas';
+export type { RunReport } from './report';
+export { combineBatchResults, loadBatchJob, runBatch } from './batch';
+export type { BatchJob, BatchSearch, BatchSearchResult } from './batch';
+export { Logger } from './logger';
+export type { LogContext, LogFormat, LogLevel, LoggerOptions } from './logger';
+export { AGENT_SORT_ORDERS, AGENT_TYPE_FILTERS, buildSearchUrl, parseSearchUrl, validateSearchQuery } from './search';
+export type { AgentSearchQuery, AgentSortOrder, AgentTypeFilter } from './search';
+export type { RefreshReason, RefreshStats } from './cache';
+export { DuplicateDetector, canonicalProfileUrl, normalizeAgentName } from './normalize';
+export type { AgentMerge, DuplicateReason } from './normalize';
+export { JOB_DATASETS, JobQueue, parseJobRequest } from './jobs';
+export type { JobDataset, JobQueueOptions, JobRecord, JobStatus } from './jobs';
+export { createJobServer } from './server';
+export type { ServerOptions } from './server';
 
 /**
- * Main entry point for Zillow scraper
+ * Abort signal for the CLI commands: the first Ctrl+C cancels the run gracefully
+ * (finished records are saved), a second one exits at once
  */
-async function main() {
-    console.log('Zillow Agent Scraper\n');
-    console.log('='.repeat(50));
-    console.log('Target: Seattle Top Agents');
-    console.log('Limit: 1000 agents');
-    console.log('='.repeat(50) + '\n');
+function interruptSignal(log: Logger): { signal: AbortSignal; dispose: () => void } {
+    const controller = new AbortController();
+    const onInterrupt = () => {
+        log.warn('Cancelling: finishing agents in flight (press Ctrl+C again to quit now)...');
+        process.off('SIGINT', onInterrupt);
+        controller.abort();
+    };
+    process.on('SIGINT', onInterrupt);
+    return { signal: controller.signal, dispose: () => process.off('SIGINT', onInterrupt) };
+}
 
+/**
+ * Run the `agents` command: scrape and save results
+ */
+async function runAgents(options: ScraperOptions, log: Logger): Promise<void> {
+    log.info(`Zillow Agent Scraper | Target: ${options.location}${options.topAgents ? ' (top agents)' : ''} | Limit: ${options.limit} agents`, {
+        location: options.location,
+        top_agents: options.topAgents,
+        limit: options.limit
+    });
+
+    const scraper = new ZillowScraper(options);
+    const interrupt = interruptSignal(log);
     try {
-        const scraper = new ZillowScraper();
-        const results = await scraper.run();
+        const results = await scraper.run({ signal: interrupt.signal });
+        saveRunArtifacts(scraper, options, results, true, log);
+        checkSchemaDrift(scraper, options);
+    } catch (err) {
+        if (err instanceof RunAbortedError) {
+            saveRunArtifacts(scraper, options, err.results, false, log);
+        }
+        throw err;
+    } finally {
+        interrupt.dispose();
+    }
+}
+
+/**
+ * Print how the run went: timing and the agents that failed
+ */
+function printRunSummary(scraper: ZillowScraper, results: AgentData[], log: Logger): void {
+    const metadata = scraper.metadata;
+    if (metadata) {
+        log.summary(
+            `Scraping complete! Extracted ${results.length} agents. Total time: ${metadata.total_time_seconds.toFixed(2)}s | `
+            + `Average time per agent: ${metadata.average_time_per_agent.toFixed(2)}s`,
+            { total_agents: results.length, total_time_seconds: metadata.total_time_seconds }
+        );
+    }
 
-        // Save to output.json
-        const outputPath = join(process.cwd(), 'output.json');
-        writeFileSync(outputPath, JSON.stringify(results, null, 2), 'utf-8');
+    const failed = results.filter(r => r.scrape_status === 'failed');
+    if (failed.length > 0) {
+        log.summary(`Failed agents (${failed.length}):`, { failed: failed.length });
+        for (const agent of failed) {
+            log.summary(`  ${agent.agent_name} [${agent.error_type}] ${agent.profile_url}`, { profile_url: agent.profile_url, error_kind: agent.error_type });
+        }
+    }
+}
 
-        console.log(`Results saved to: ${outputPath}`);
-        console.log(`Total agents: ${results.length}`);
+/**
+ * Throw SchemaDriftError when drift affected more pages than the run allows
+ */
+function checkSchemaDrift(scraper: ZillowScraper, options: ScraperOptions): void {
+    const drift = scraper.report?.schema_drift;
+    if (drift && drift.drift_rate * 100 > options.maxDriftPercent) {
+        throw new SchemaDriftError(drift, options.maxDriftPercent);
+    }
+}
+
+/**
+ * Save the datasets and report that accompany a run's results, and print where they went.
+ * A cancelled run (`complete` false) saves no snapshot, so diffs only compare full runs.
+ */
+function saveRunArtifacts(
+    scraper: ZillowScraper,
+    options: ScraperOptions,
+    results: AgentData[],
+    complete: boolean,
+    log: Logger
+): void {
+    printRunSummary(scraper, results, log);
 
-        // Print summary
-        const withBadge = results.filter(r => r.badge_type).length;
-        const withSales = results.filter(r => r.sales_last_12_months !== null).length;
-        const teams = results.filter(r => r.team_members_count !== null).length;
+    // Results are written to the output sinks by the scraper as agents complete
+    for (const output of options.outputs) {
+        log.summary(`Results saved to: ${resolve(process.cwd(), output.path)} (${output.format})`, { path: output.path });
+    }
+    log.summary(`Total agents: ${results.length}`);
+
+    const primaryPath = resolve(process.cwd(), options.outputs[0].path);
+
+    // Save failed agents separately so they can be re-queued with --agents-file
+    const failed = results.filter(r => r.scrape_status === 'failed');
+    if (failed.length > 0) {
+        const failedPath = siblingPath(primaryPath, 'failed');
+        writeFileSync(failedPath, JSON.stringify(failed, null, 2), 'utf-8');
+        log.summary(`Failed agents saved to: ${failedPath}`, { path: failedPath });
+        log.summary(`  Re-queue with: zillow-scraper agents --agents-file ${failedPath}`);
+    }
+
+    // Reviews are a separate dataset linked to agents by profile_url
+    if (options.reviews) {
+        const reviews = scraper.reviews;
+        const reviewsPath = siblingPath(primaryPath, 'reviews');
+        writeFileSync(reviewsPath, JSON.stringify(reviews, null, 2), 'utf-8');
+        log.summary(`Reviews saved to: ${reviewsPath} (${reviews.length} reviews)`, { path: reviewsPath });
+    }
+
+    if (options.transactions) {
+        const transactions = scraper.transactions;
+        const transactionsPath = siblingPath(primaryPath, 'transactions');
+        writeFileSync(transactionsPath, JSON.stringify(transactions, null, 2), 'utf-8');
+        log.summary(`Transactions saved to: ${transactionsPath} (${transactions.length} records)`, { path: transactionsPath });
+    }
+
+    // Likely duplicates stay in the results, flagged with duplicate_of; this file is the audit trail
+    const merges = scraper.merges;
+    if (merges.length > 0) {
+        const mergesPath = siblingPath(primaryPath, 'merges');
+        writeFileSync(mergesPath, JSON.stringify(merges, null, 2), 'utf-8');
+        log.summary(`Likely duplicates saved to: ${mergesPath} (${merges.length} records)`, { path: mergesPath });
+    }
+
+    if (options.teamMembers || options.expandTeams) {
+        const members = scraper.teamMembers;
+        const membersPath = siblingPath(primaryPath, 'team-members');
+        writeFileSync(membersPath, JSON.stringify(members, null, 2), 'utf-8');
+        log.summary(`Team members saved to: ${membersPath} (${members.length} members)`, { path: membersPath });
+    }
+
+    const report = scraper.report;
+    if (!report) return;
+
+    // Save the run report next to the data and print its summary
+    const reportPath = siblingPath(primaryPath, 'report');
+    writeFileSync(reportPath, JSON.stringify(report, null, 2), 'utf-8');
+    log.summary(`Run report saved to: ${reportPath}`, { path: reportPath });
+    log.summary(formatReportSummary(report));
+    if (report.schema_drift.paths.length > 0) {
+        log.warn(formatDriftReport(report.schema_drift), { drift_rate: report.schema_drift.drift_rate });
+    }
+
+    if (options.snapshotDir && !complete) {
+        log.summary('Snapshot skipped: the run was cancelled before it finished');
+    } else if (options.snapshotDir) {
+        const snapshot = createSnapshot(results, report.metadata, report.list_url);
+        const snapshotPath = saveSnapshot(options.snapshotDir, snapshot, options.market ?? options.location);
+        log.summary(`Snapshot saved to: ${snapshotPath}`, { path: snapshotPath });
+    }
+}
+
+/**
+ * Run the `batch` command: every search of a job file, then the combined results
+ */
+async function runBatchJob(job: BatchJob, log: Logger): Promise<void> {
+    log.info(`Zillow Agent Scraper - batch | Job: ${job.path} | Searches: ${job.searches.map(search => search.name).join(', ')} | Parallel: ${job.parallel}`, {
+        job: job.path,
+        parallel: job.parallel
+    });
 
-        console.log('\nSummary:');
-        console.log(`  Agents with badges: ${withBadge}/${results.length}`);
-        console.log(`  Agents with sales data: ${withSales}/${results.length}`);
-        console.log(`  Teams: ${teams}/${results.length}`);
+    const driftErrors: SchemaDriftError[] = [];
+    const interrupt = interruptSignal(log);
+    const searches = await runBatch(job, (search, scraper, result) => {
+        const searchLog = log.child({ search: search.name });
+        searchLog.summary('Search finished');
+        // Crashed searches have no report; cancelled ones keep what they finished
+        if (scraper.report) {
+            saveRunArtifacts(scraper, search.options, result.results, !result.error, searchLog);
+        }
+        if (!result.error) {
+            try {
+                checkSchemaDrift(scraper, search.options);
+            } catch (err) {
+                if (!(err instanceof SchemaDriftError)) throw err;
+                searchLog.error(err.message);
+                driftErrors.push(err);
+            }
+        }
+    }, interrupt.signal).finally(() => interrupt.dispose());
+
+    const combined = combineBatchResults(searches);
+    for (const target of job.outputs) {
+        const sink = createSink(target);
+        await sink.open();
+        for (const agent of combined) {
+            await sink.write(agent);
+        }
+        await sink.close(combined);
+        log.summary(`Combined results saved to: ${resolve(process.cwd(), target.path)} (${target.format})`, { path: target.path });
+    }
+
+    log.summary('Batch summary:');
+    for (const search of searches) {
+        const status = search.error ? `FAILED (${search.error})` : `${search.results.length} scraped`;
+        log.summary(`  ${search.name}: ${search.listed.length} listed, ${status}`, {
+            search: search.name,
+            listed: search.listed.length,
+            scraped: search.results.length,
+            error: search.error
+        });
+    }
+    log.summary(`  Unique agents: ${combined.length}`, { unique_agents: combined.length });
+
+    if (interrupt.signal.aborted) {
+        throw new RunAbortedError(combined);
+    }
+    if (searches.some(search => search.error)) {
+        throw new Error('One or more searches failed');
+    }
+    if (driftErrors.length > 0) {
+        throw driftErrors[0];
+    }
+}
+
+/**
+ * Run the `diff` command: compare two snapshots
+ */
+function runDiff(options: DiffOptions): void {
+    const diff = diffSnapshots(loadSnapshot(options.from), loadSnapshot(options.to));
+
+    if (options.jsonPath) {
+        writeFileSync(options.jsonPath, JSON.stringify(diff, null, 2), 'utf-8');
+    }
+
+    console.log(options.format === 'json' ? JSON.stringify(diff, null, 2) : formatDiffSummary(diff));
+}
+
+/**
+ * Run the `analyze` command: rank a results file and write the report.
+ * Only a report printed in place of `--out` files goes to stdout; status lines are logged.
+ */
+function runAnalyze(options: AnalyzeOptions, log: Logger): void {
+    const report = analyzeAgents(readResultsFile(options.input), options.weights, options.input);
+
+    if (options.outputs.length === 0) {
+        console.log(formatAnalysisMarkdown(report, options.top));
+        return;
+    }
+
+    for (const output of options.outputs) {
+        mkdirSync(dirname(resolve(output.path)), { recursive: true });
+        switch (output.format) {
+            case 'markdown':
+                writeFileSync(output.path, formatAnalysisMarkdown(report, options.top), 'utf-8');
+                break;
+            case 'html':
+                writeFileSync(output.path, formatAnalysisHtml(report, options.top), 'utf-8');
+                break;
+            case 'csv': {
+                writeFileSync(output.path, formatAnalysisCsv(report, options.top), 'utf-8');
+                // Market aggregates do not fit the ranking's columns, so they get their own file
+                const marketsPath = siblingPath(output.path, 'markets', '.csv');
+                writeFileSync(marketsPath, formatMarketsCsv(report), 'utf-8');
+                log.summary(`Market aggregates saved to: ${resolve(marketsPath)}`, { path: marketsPath });
+                break;
+            }
+        }
+        log.summary(`Ranking saved to: ${resolve(output.path)} (${output.format})`, { path: output.path });
+    }
+    log.summary(`Ranked ${report.agents.length} agents across ${report.markets.length} market(s)`, {
+        agents: report.agents.length,
+        markets: report.markets.length
+    });
+}
+
+/**
+ * Run the `serve` command: the HTTP API until Ctrl+C. Running jobs are interrupted
+ * and resume from their checkpoints on the next start.
+ */
+async function runServe(options: ServerOptions, log: Logger): Promise<void> {
+    const queue = new JobQueue({ dir: options.jobsDir, maxRunning: options.maxRunning, headless: options.headless }, log);
+    queue.restore();
+
+    const server = createJobServer(queue, log);
+    await new Promise<void>((resolvePromise, reject) => {
+        server.once('error', reject);
+        server.listen(options.port, options.host, () => resolvePromise());
+    });
+    const address = server.address();
+    const port = typeof address === 'object' && address ? address.port : options.port;
+    log.summary(`Job API listening on http://${options.host}:${port} | Jobs: ${resolve(options.jobsDir)} | Max running: ${options.maxRunning}`, {
+        host: options.host,
+        port,
+        jobs_dir: options.jobsDir
+    });
+
+    const interrupt = interruptSignal(log);
+    await new Promise<void>(resolvePromise => interrupt.signal.addEventListener('abort', () => resolvePromise(), { once: true }));
+    interrupt.dispose();
+
+    await new Promise<void>(resolvePromise => server.close(() => resolvePromise()));
+    await queue.close();
+    log.summary('Job API stopped');
+}
+
+/**
+ * Main entry point for Zillow scraper
+ */
+async function main() {
+    // Diagnostics before the options are parsed (and for `diff` and `analyze`) go to the default text logger
+    let log = defaultLogger;
+    try {
+        const cli = parseCli(process.argv.slice(2));
+
+        switch (cli.command) {
+            case 'help':
+                console.log(USAGE);
+                break;
+            case 'agents':
+                log = Logger.create({ level: cli.options.logLevel, format: cli.options.logFormat });
+                await runAgents(cli.options, log);
+                break;
+            case 'diff':
+                runDiff(cli.options);
+                break;
+            case 'analyze':
+                runAnalyze(cli.options, log);
+                break;
+            case 'serve':
+                log = Logger.create({ level: cli.logLevel, format: cli.logFormat });
+                await runServe(cli.options, log);
+                break;
+            case 'batch':
+                log = Logger.create({ level: cli.job.searches[0].options.logLevel, format: cli.job.searches[0].options.logFormat });
+                await runBatchJob(cli.job, log);
+                break;
+        }
 
         process.exit(0);
 
     } catch (error) {
-        console.error('\nScraper failed:');
-        console.error(error);
+        if (error instanceof OptionsValidationError) {
+            console.error(error.message);
+            console.error(`\n${USAGE}`);
+            process.exit(2);
+        }
+
+        if (error instanceof SchemaDriftError) {
+            log.error(error.message, { drift_rate: error.report.drift_rate });
+            process.exit(3);
+        }
+
+        if (error instanceof RunAbortedError) {
+            log.error(`${error.message}; finished records were saved. Re-run with --resume to continue.`);
+            process.exit(130);
+        }
+
+        log.error(`Scraper failed: ${error instanceof Error ? error.stack ?? error.message : String(error)}`);
         process.exit(1);
     }
 }
 
-main();
+if (require.main === module) {
+    main();
+}
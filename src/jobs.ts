@@ -0,0 +1,413 @@
+import { randomUUID } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Browser } from 'playwright';
+import { OutputFormat, ScraperOptions } from './types';
+import { DEFAULT_SCRAPER_OPTIONS, OptionsValidationError, pickScraperOptions, validateScraperOptions } from './config';
+import { RunAbortedError, ZillowScraper } from './scraper';
+import { RunReport } from './report';
+import { SchemaDriftError } from './schemas';
+import { launchChromium } from './sessions';
+import { parseSearchUrl } from './search';
+import { Logger, defaultLogger } from './logger';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * A submitted scrape and how far it got, saved as `<jobs dir>/<id>/job.json`
+ */
+export interface JobRecord {
+    id: string;
+    status: JobStatus;
+    options: Partial<ScraperOptions>;   // As submitted; the queue sets outputs, checkpoints and the browser
+    created_at: string;
+    started_at: string | null;
+    finished_at: string | null;
+    progress: {
+        listed: number;     // Agents found on the list pages so far
+        completed: number;  // Agents finished (scraped or failed)
+        failed: number;
+        total: number;      // Agents to finish, known once the list is complete
+    };
+    error: string | null;
+    report: Pick<RunReport, 'agents' | 'pages' | 'errors_by_type' | 'captcha_encounters'> | null;
+}
+
+/**
+ * Settings for the job queue
+ */
+export interface JobQueueOptions {
+    dir: string;            // Job state, checkpoints and results
+    maxRunning: number;     // Scrapes run at the same time
+    headless: boolean;      // For the shared browser
+}
+
+/**
+ * Result formats a job can be downloaded as
+ */
+export const JOB_RESULT_FORMATS: OutputFormat[] = ['json', 'csv'];
+
+/**
+ * Datasets a job can produce: its agents, plus the related records and merge audit the
+ * CLI writes next to its output. Only agents come as CSV.
+ */
+export type JobDataset = 'agents' | 'reviews' | 'transactions' | 'team_members' | 'merges';
+
+export const JOB_DATASETS: JobDataset[] = ['agents', 'reviews', 'transactions', 'team_members', 'merges'];
+
+const DATASET_FILES: Record<Exclude<JobDataset, 'agents'>, string> = {
+    reviews: 'reviews.json',
+    transactions: 'transactions.json',
+    team_members: 'team-members.json',
+    merges: 'merges.json'
+};
+
+/**
+ * Options a submitted job may set. Paths, the browser and logging belong to the server.
+ */
+const JOB_OPTION_KEYS: (keyof ScraperOptions)[] = [
+    'location', 'topAgents', 'specialties', 'languages', 'minPrice', 'maxPrice', 'sort', 'agentType',
+    'limit', 'concurrency', 'requestsPerMinute', 'minDelayMs', 'maxDelayMs', 'adaptiveConcurrency',
+    'retries', 'retryDelayMs', 'fieldGroups', 'reviews', 'maxReviewsPerAgent', 'transactions',
+    'maxTransactionsPerAgent', 'teamMembers', 'expandTeams', 'maxDriftPercent', 'challengeStrategy',
+    'challengeTimeoutMs', 'challengeCooldownMs', 'sessionCount', 'maxSessionFailures'
+];
+
+/**
+ * Nobody watches a server's browser window, so challenges are retried at the end by default
+ */
+const JOB_DEFAULT_OPTIONS: Partial<ScraperOptions> = {
+    challengeStrategy: 'requeue'
+};
+
+/**
+ * Validate a submitted job body: option keys of ScraperOptions (see JOB_OPTION_KEYS),
+ * or a directory `url` that the other keys override. Throws OptionsValidationError.
+ */
+export function parseJobRequest(body: unknown): Partial<ScraperOptions> {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        throw new OptionsValidationError(['job must be a JSON object of scraper options']);
+    }
+
+    const issues: string[] = [];
+    let fromUrl: Partial<ScraperOptions> = {};
+    const { url, ...rest } = body as Record<string, unknown>;
+    if (url !== undefined) {
+        try {
+            if (typeof url !== 'string') throw new Error('url must be a string');
+            fromUrl = parseSearchUrl(url);
+        } catch (err) {
+            issues.push((err as Error).message);
+        }
+    }
+    for (const key of Object.keys(rest)) {
+        if (!(JOB_OPTION_KEYS as string[]).includes(key)) {
+            issues.push(`unknown or server-controlled option "${key}"`);
+        }
+    }
+    const options: Partial<ScraperOptions> = { ...fromUrl, ...pickScraperOptions(rest, JOB_OPTION_KEYS, issues) };
+
+    try {
+        validateScraperOptions({ ...DEFAULT_SCRAPER_OPTIONS, ...JOB_DEFAULT_OPTIONS, ...options });
+    } catch (err) {
+        if (!(err instanceof OptionsValidationError)) throw err;
+        issues.push(...err.issues);
+    }
+    if (issues.length > 0) {
+        throw new OptionsValidationError(issues);
+    }
+    return options;
+}
+
+/**
+ * Runs submitted scrapes with one shared browser, at most `maxRunning` at a time, oldest
+ * first. Every job keeps its state, checkpoint and results in its own directory, so a
+ * restarted queue picks up where the previous one stopped.
+ */
+export class JobQueue {
+    private readonly jobs = new Map<string, JobRecord>();
+    private readonly running = new Map<string, { controller: AbortController; done: Promise<void> }>();
+    private browser: Promise<Browser> | null = null;
+    private closing = false;
+
+    constructor(private readonly options: JobQueueOptions, private readonly logger: Logger = defaultLogger) {}
+
+    /**
+     * Load the jobs of an earlier queue. Jobs it left queued or running are queued
+     * again and continue from their checkpoint.
+     */
+    restore(): void {
+        if (!existsSync(this.options.dir)) return;
+
+        for (const id of readdirSync(this.options.dir)) {
+            const path = join(this.options.dir, id, 'job.json');
+            if (!existsSync(path)) continue;
+            try {
+                const job = JSON.parse(readFileSync(path, 'utf-8')) as JobRecord;
+                if (job.status === 'running') {
+                    job.status = 'queued';
+                    this.save(job);
+                }
+                this.jobs.set(job.id, job);
+            } catch (err) {
+                this.logger.warn(`Ignoring unreadable job ${path}: ${(err as Error).message}`);
+            }
+        }
+
+        const queued = this.list().filter(job => job.status === 'queued').length;
+        if (queued > 0) {
+            this.logger.info(`Restored ${this.jobs.size} jobs; resuming ${queued} unfinished`);
+        }
+        this.pump();
+    }
+
+    /**
+     * Queue a validated job (see parseJobRequest)
+     */
+    submit(options: Partial<ScraperOptions>): JobRecord {
+        if (this.closing) throw new Error('The job queue is shutting down');
+
+        const job: JobRecord = {
+            id: randomUUID(),
+            status: 'queued',
+            options,
+            created_at: new Date().toISOString(),
+            started_at: null,
+            finished_at: null,
+            progress: { listed: 0, completed: 0, failed: 0, total: 0 },
+            error: null,
+            report: null
+        };
+        this.jobs.set(job.id, job);
+        this.save(job);
+        this.logger.info('Job queued', { job: job.id });
+        this.pump();
+        return job;
+    }
+
+    get(id: string): JobRecord | null {
+        return this.jobs.get(id) ?? null;
+    }
+
+    /**
+     * Every job, oldest first
+     */
+    list(): JobRecord[] {
+        return [...this.jobs.values()].sort((a, b) => a.created_at.localeCompare(b.created_at));
+    }
+
+    /**
+     * Cancel a queued or running job. A running job stops handing out agents and keeps
+     * the records it finished. Returns false when the job had already finished.
+     */
+    cancel(id: string): boolean {
+        const job = this.jobs.get(id);
+        if (!job || (job.status !== 'queued' && job.status !== 'running')) return false;
+
+        if (job.status === 'queued') {
+            job.status = 'cancelled';
+            job.finished_at = new Date().toISOString();
+            this.save(job);
+        } else {
+            this.running.get(id)?.controller.abort();
+        }
+        this.logger.info('Job cancelled', { job: id });
+        return true;
+    }
+
+    /**
+     * Path of a finished job's `dataset` in `format`, or null when the job did not produce it
+     * (e.g. reviews when the job did not ask for them)
+     */
+    resultsPath(id: string, format: OutputFormat, dataset: JobDataset = 'agents'): string | null {
+        if (!this.jobs.has(id) || !JOB_RESULT_FORMATS.includes(format)) return null;
+        if (dataset !== 'agents' && format !== 'json') return null;
+
+        const file = dataset === 'agents' ? `results.${format}` : DATASET_FILES[dataset];
+        const path = join(this.jobDir(id), file);
+        return existsSync(path) ? path : null;
+    }
+
+    /**
+     * Stop taking jobs, interrupt the running ones (they are saved as queued, to resume
+     * on the next start) and close the shared browser
+     */
+    async close(): Promise<void> {
+        this.closing = true;
+        const running = [...this.running.values()];
+        for (const { controller } of running) {
+            controller.abort();
+        }
+        await Promise.all(running.map(({ done }) => done));
+
+        if (this.browser) {
+            const browser = await this.browser.catch(() => null);
+            await browser?.close();
+            this.browser = null;
+        }
+    }
+
+    /**
+     * Start the oldest queued jobs while there is room
+     */
+    private pump(): void {
+        if (this.closing) return;
+
+        for (const job of this.list()) {
+            if (this.running.size >= this.options.maxRunning) break;
+            if (job.status !== 'queued') continue;
+
+            const controller = new AbortController();
+            const done = this.run(job, controller.signal)
+                .catch(err => this.markFailed(job, err))
+                .finally(() => {
+                    this.running.delete(job.id);
+                    this.pump();
+                });
+            this.running.set(job.id, { controller, done });
+        }
+    }
+
+    private async run(job: JobRecord, signal: AbortSignal): Promise<void> {
+        const log = this.logger.child({ job: job.id });
+        job.status = 'running';
+        job.started_at = job.started_at ?? new Date().toISOString();
+        job.progress = { listed: 0, completed: 0, failed: 0, total: 0 };
+        job.error = null;
+        this.save(job);
+        log.info('Job started');
+
+        let scraper: ZillowScraper | null = null;
+        try {
+            const browser = await this.sharedBrowser();
+            scraper = new ZillowScraper(this.scraperOptions(job), { browser, claimedAgents: new Set(), logger: log });
+
+            scraper.on('listPage', ({ total }) => {
+                job.progress.listed = total;
+                this.save(job);
+            });
+            scraper.on('agent', ({ agent, completed, total }) => {
+                job.progress.completed = completed;
+                job.progress.total = total;
+                if (agent.scrape_status === 'failed') job.progress.failed++;
+                this.save(job);
+            });
+
+            await scraper.run({ signal });
+
+            // As the CLI exits with code 3: the results are kept, but the job did not go well
+            const drift = scraper.report?.schema_drift;
+            const maxDriftPercent = job.options.maxDriftPercent ?? DEFAULT_SCRAPER_OPTIONS.maxDriftPercent;
+            if (drift && drift.drift_rate * 100 > maxDriftPercent) {
+                throw new SchemaDriftError(drift, maxDriftPercent);
+            }
+            job.status = 'succeeded';
+        } catch (err) {
+            if (err instanceof RunAbortedError) {
+                // Interrupted by a shutdown rather than cancelled: resume on the next start
+                job.status = this.closing ? 'queued' : 'cancelled';
+            } else {
+                job.status = 'failed';
+                job.error = (err as Error).message;
+                log.error(`Job failed: ${job.error}`);
+            }
+        }
+
+        const report = scraper?.report ?? null;
+        if (scraper && report) {
+            this.saveDatasets(job, scraper);
+            writeFileSync(join(this.jobDir(job.id), 'report.json'), JSON.stringify(report, null, 2), 'utf-8');
+            job.report = {
+                agents: report.agents,
+                pages: report.pages,
+                errors_by_type: report.errors_by_type,
+                captcha_encounters: report.captcha_encounters
+            };
+        }
+        if (job.status !== 'queued') {
+            job.finished_at = new Date().toISOString();
+        }
+        this.save(job);
+        log.info(`Job ${job.status}`);
+    }
+
+    /**
+     * Record a job whose run threw outside the scrape itself (e.g. writing its state or
+     * results failed), so the error never escapes as an unhandled rejection
+     */
+    private markFailed(job: JobRecord, err: unknown): void {
+        job.status = 'failed';
+        job.error = (err as Error).message;
+        job.finished_at = new Date().toISOString();
+        this.logger.error(`Job failed: ${job.error}`, { job: job.id });
+        try {
+            this.save(job);
+        } catch (saveErr) {
+            this.logger.error(`Could not save job state: ${(saveErr as Error).message}`, { job: job.id });
+        }
+    }
+
+    /**
+     * Write the related record datasets the job asked for, and the merge audit
+     */
+    private saveDatasets(job: JobRecord, scraper: ZillowScraper): void {
+        const dir = this.jobDir(job.id);
+        const datasets: Partial<Record<Exclude<JobDataset, 'agents'>, unknown[]>> = { merges: scraper.merges };
+        if (job.options.reviews) datasets.reviews = scraper.reviews;
+        if (job.options.transactions) datasets.transactions = scraper.transactions;
+        if (job.options.teamMembers || job.options.expandTeams) datasets.team_members = scraper.teamMembers;
+
+        for (const [dataset, records] of Object.entries(datasets) as [Exclude<JobDataset, 'agents'>, unknown[]][]) {
+            writeFileSync(join(dir, DATASET_FILES[dataset]), JSON.stringify(records, null, 2), 'utf-8');
+        }
+    }
+
+    /**
+     * Submitted options plus the server's: outputs and checkpoints in the job's
+     * directory, and always resuming, so a job interrupted by a restart continues
+     */
+    private scraperOptions(job: JobRecord): Partial<ScraperOptions> {
+        const dir = this.jobDir(job.id);
+        return {
+            ...JOB_DEFAULT_OPTIONS,
+            ...job.options,
+            outputs: JOB_RESULT_FORMATS.map(format => ({ path: join(dir, `results.${format}`), format })),
+            checkpointDir: join(dir, 'checkpoints'),
+            resume: true,
+            headless: this.options.headless,
+            logLevel: this.logger.options.level,
+            logFormat: this.logger.options.format
+        };
+    }
+
+    /**
+     * The browser shared by every job, launched with the first one and
+     * relaunched by the next job once it fails to start, crashes or is closed
+     */
+    private sharedBrowser(): Promise<Browser> {
+        if (!this.browser) {
+            const launch = launchChromium(this.options.headless);
+            const forget = () => {
+                if (this.browser === launch) this.browser = null;
+            };
+            launch.then(browser => browser.once('disconnected', forget), forget);
+            this.browser = launch;
+        }
+        return this.browser;
+    }
+
+    private jobDir(id: string): string {
+        return join(this.options.dir, id);
+    }
+
+    /**
+     * Write a job's state atomically (temp file + rename)
+     */
+    private save(job: JobRecord): void {
+        const dir = this.jobDir(job.id);
+        mkdirSync(dir, { recursive: true });
+        const tmpPath = join(dir, 'job.json.tmp');
+        writeFileSync(tmpPath, JSON.stringify(job, null, 2), 'utf-8');
+        renameSync(tmpPath, join(dir, 'job.json'));
+    }
+}
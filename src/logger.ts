@@ -0,0 +1,152 @@
+/**
+ * Leveled logging with per-agent context, written as text, NDJSON or a progress bar
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * How log records are written:
+ * - `text`: readable lines, info and debug on stdout, warnings and errors on stderr
+ * - `json`: one JSON object per line on stdout (NDJSON), for log pipelines
+ * - `progress`: a single progress bar on stderr; only warnings, errors and end-of-run summaries are printed
+ */
+export type LogFormat = 'text' | 'json' | 'progress';
+
+/**
+ * Structured fields attached to a record, e.g. `{ index, profile_url, attempt }`
+ */
+export type LogContext = Record<string, string | number | boolean | null | undefined>;
+
+export interface LoggerOptions {
+    level: LogLevel;
+    format: LogFormat;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+export const LOG_FORMATS: LogFormat[] = ['text', 'json', 'progress'];
+
+const PROGRESS_BAR_WIDTH = 30;
+
+/**
+ * Output shared by a logger and its children, so they agree on the progress bar line
+ */
+class LogWriter {
+    private progressShown = false;
+
+    constructor(readonly options: LoggerOptions) {}
+
+    enabled(level: Exclude<LogLevel, 'silent'>, summary = false): boolean {
+        if (this.options.format === 'progress' && !summary && (level === 'debug' || level === 'info')) return false;
+        return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.options.level);
+    }
+
+    write(level: Exclude<LogLevel, 'silent'>, message: string, context: LogContext, summary = false): void {
+        if (!this.enabled(level, summary)) return;
+
+        if (this.options.format === 'json') {
+            const record = { time: new Date().toISOString(), level, msg: message, ...context };
+            process.stdout.write(`${JSON.stringify(record)}\n`);
+            return;
+        }
+
+        const line = `${textPrefix(context)}${level === 'warn' ? 'WARNING: ' : level === 'error' ? 'ERROR: ' : ''}${message}`;
+        const stream = level === 'warn' || level === 'error' || (this.options.format === 'progress' && !summary)
+            ? process.stderr
+            : process.stdout;
+        this.clearProgress();
+        stream.write(`${line}\n`);
+    }
+
+    progress(label: string, completed: number, total: number): void {
+        if (this.options.format !== 'progress' || !process.stderr.isTTY) return;
+
+        const ratio = total > 0 ? Math.min(1, completed / total) : 0;
+        const filled = Math.round(ratio * PROGRESS_BAR_WIDTH);
+        const bar = `${'#'.repeat(filled)}${'-'.repeat(PROGRESS_BAR_WIDTH - filled)}`;
+        process.stderr.write(`\r\x1b[2K${label} [${bar}] ${completed}/${total} (${Math.round(ratio * 100)}%)`);
+        this.progressShown = true;
+    }
+
+    clearProgress(): void {
+        if (!this.progressShown) return;
+        process.stderr.write('\r\x1b[2K');
+        this.progressShown = false;
+    }
+}
+
+/**
+ * `[search] [index/total] ` (or `[job id] ...`) label for text lines; other context only appears in JSON
+ */
+function textPrefix(context: LogContext): string {
+    let prefix = '';
+    if (context.job) prefix += `[job ${context.job}] `;
+    if (context.search) prefix += `[${context.search}] `;
+    if (typeof context.index === 'number') {
+        prefix += context.total !== undefined ? `[${context.index}/${context.total}] ` : `[${context.index}] `;
+    }
+    return prefix;
+}
+
+/**
+ * Logger carrying a context that is attached to every record it writes
+ */
+export class Logger {
+    private constructor(private readonly writer: LogWriter, private readonly context: LogContext) {}
+
+    static create(options: LoggerOptions, context: LogContext = {}): Logger {
+        return new Logger(new LogWriter(options), context);
+    }
+
+    /**
+     * Logger adding `context` to this one's, sharing its output
+     */
+    child(context: LogContext): Logger {
+        return new Logger(this.writer, { ...this.context, ...context });
+    }
+
+    get options(): LoggerOptions {
+        return this.writer.options;
+    }
+
+    debug(message: string, context: LogContext = {}): void {
+        this.writer.write('debug', message, { ...this.context, ...context });
+    }
+
+    info(message: string, context: LogContext = {}): void {
+        this.writer.write('info', message, { ...this.context, ...context });
+    }
+
+    warn(message: string, context: LogContext = {}): void {
+        this.writer.write('warn', message, { ...this.context, ...context });
+    }
+
+    error(message: string, context: LogContext = {}): void {
+        this.writer.write('error', message, { ...this.context, ...context });
+    }
+
+    /**
+     * Info record that the progress format prints too, for end-of-run results
+     */
+    summary(message: string, context: LogContext = {}): void {
+        this.writer.write('info', message, { ...this.context, ...context }, true);
+    }
+
+    /**
+     * Redraw the progress bar (progress format on a terminal only)
+     */
+    progress(label: string, completed: number, total: number): void {
+        this.writer.progress(`${textPrefix({ job: this.context.job, search: this.context.search })}${label}`, completed, total);
+    }
+
+    /**
+     * Remove the progress bar, e.g. before printing a summary
+     */
+    endProgress(): void {
+        this.writer.clearProgress();
+    }
+}
+
+/**
+ * Text logger at info level, used when no logger is passed in
+ */
+export const defaultLogger = Logger.create({ level: 'info', format: 'text' });
@@ -0,0 +1,226 @@
+/**
+ * Profile URL and name normalization, and detection of agents listed more than once
+ */
+
+import { AgentData, AgentListItem } from './types';
+
+/**
+ * Why two records are taken to be the same agent
+ * - `license`: same license number
+ * - `phone`: same phone number
+ * - `name_brokerage`: near-identical name at the same brokerage
+ */
+export type DuplicateReason = 'license' | 'phone' | 'name_brokerage';
+
+/**
+ * A record flagged as a duplicate of an earlier one, for the merge audit file
+ */
+export interface AgentMerge {
+    profile_url: string;            // The record kept as the agent
+    agent_name: string;
+    duplicate_profile_url: string;  // The record flagged with duplicate_of
+    duplicate_agent_name: string;
+    reason: DuplicateReason;
+    matched: string;                // Normalized value the two records share
+}
+
+const ZILLOW_ORIGIN = 'https://www.zillow.com';
+
+/**
+ * Minimum similarity (0-1) of two normalized names for a name + brokerage match
+ */
+const NAME_SIMILARITY = 0.9;
+
+/**
+ * Canonical form of a Zillow profile URL (absolute or site-relative): https://www.zillow.com, lowercase path
+ * (profile screen names are case-insensitive) with one trailing slash, and no query string
+ * or fragment. Values that are not URLs are returned trimmed.
+ */
+export function canonicalProfileUrl(value: string): string {
+    const trimmed = value.trim();
+    let url: URL;
+    try {
+        url = trimmed.startsWith('/') ? new URL(trimmed, ZILLOW_ORIGIN) : new URL(trimmed);
+    } catch {
+        return trimmed;
+    }
+    if (!/(^|\.)zillow\.com$/i.test(url.hostname)) {
+        return trimmed;
+    }
+
+    const path = url.pathname.replace(/\/{2,}/g, '/').replace(/\/+$/, '').toLowerCase();
+    return `${ZILLOW_ORIGIN}${path}/`;
+}
+
+/**
+ * Display name with Unicode normalized, invisible characters removed and whitespace collapsed
+ */
+export function normalizeAgentName(name: string): string {
+    return name
+        .normalize('NFC')
+        .replace(/[\u200B-\u200D\uFEFF]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * A list entry with its profile URLs canonicalized and its name normalized
+ */
+export function normalizeListItem<T extends AgentListItem>(agent: T): T {
+    const normalized = {
+        ...agent,
+        agent_name: normalizeAgentName(agent.agent_name),
+        profile_url: canonicalProfileUrl(agent.profile_url)
+    };
+    if (agent.team_lead_profile_url) {
+        normalized.team_lead_profile_url = canonicalProfileUrl(agent.team_lead_profile_url);
+    }
+    return normalized;
+}
+
+/**
+ * Comparison key for a name: accents, case, punctuation and word order ignored
+ */
+function nameKey(name: string): string {
+    return name
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9\s]/g, ' ')
+        .split(/\s+/)
+        .filter(Boolean)
+        .sort()
+        .join(' ');
+}
+
+function brokerageKey(name: string | null): string | null {
+    if (!name) return null;
+    const key = name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    return key || null;
+}
+
+function licenseKey(license: string | null): string | null {
+    const key = license?.toUpperCase().replace(/[^A-Z0-9]/g, '') ?? '';
+    return key.length >= 4 ? key : null;
+}
+
+/**
+ * Last ten digits of a North American number; null for anything shorter
+ */
+function phoneKey(phone: string | null): string | null {
+    const digits = phone?.replace(/\D/g, '') ?? '';
+    return digits.length >= 10 ? digits.slice(-10) : null;
+}
+
+/**
+ * Similarity of two strings from 0 to 1, by Levenshtein distance
+ */
+function similarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (!a || !b) return 0;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+/**
+ * Flags records that are likely the same agent as one seen earlier in the run. The first
+ * record is kept as the agent; later matches get `duplicate_of` and `duplicate_reason`
+ * and a merge entry. Records are never dropped, since streaming outputs already hold them.
+ */
+export class DuplicateDetector {
+    private readonly byLicense = new Map<string, AgentData>();
+    private readonly byPhone = new Map<string, AgentData>();
+    private readonly byBrokerage = new Map<string, { key: string; agent: AgentData }[]>();
+    private readonly mergeLog: AgentMerge[] = [];
+
+    get merges(): AgentMerge[] {
+        return this.mergeLog;
+    }
+
+    /**
+     * Check a scraped record against those seen so far, flagging it when it matches one.
+     * Failed records carry no details and are skipped.
+     */
+    check(agent: AgentData): AgentMerge | null {
+        if (agent.scrape_status !== 'ok') return null;
+
+        const merge = this.match(agent);
+        if (merge) {
+            agent.duplicate_of = merge.profile_url;
+            agent.duplicate_reason = merge.reason;
+            this.mergeLog.push(merge);
+            return merge;
+        }
+
+        agent.duplicate_of = null;
+        agent.duplicate_reason = null;
+        this.remember(agent);
+        return null;
+    }
+
+    private match(agent: AgentData): AgentMerge | null {
+        const merge = (primary: AgentData, reason: DuplicateReason, matched: string): AgentMerge => ({
+            profile_url: primary.profile_url,
+            agent_name: primary.agent_name,
+            duplicate_profile_url: agent.profile_url,
+            duplicate_agent_name: agent.agent_name,
+            reason,
+            matched
+        });
+
+        const license = licenseKey(agent.license_number);
+        const byLicense = license ? this.byLicense.get(license) : undefined;
+        if (license && byLicense) return merge(byLicense, 'license', license);
+
+        // Team members often list their team's phone, so a phone shared within a team is no match
+        const phone = phoneKey(agent.phone);
+        const byPhone = phone ? this.byPhone.get(phone) : undefined;
+        if (phone && byPhone && !isSameTeam(agent, byPhone)) return merge(byPhone, 'phone', phone);
+
+        const brokerage = brokerageKey(agent.brokerage_name);
+        const key = nameKey(agent.agent_name);
+        if (brokerage && key) {
+            const similar = this.byBrokerage.get(brokerage)?.find(entry => similarity(entry.key, key) >= NAME_SIMILARITY);
+            if (similar) return merge(similar.agent, 'name_brokerage', `${key} @ ${brokerage}`);
+        }
+
+        return null;
+    }
+
+    private remember(agent: AgentData): void {
+        const license = licenseKey(agent.license_number);
+        if (license && !this.byLicense.has(license)) this.byLicense.set(license, agent);
+
+        const phone = phoneKey(agent.phone);
+        if (phone && !this.byPhone.has(phone)) this.byPhone.set(phone, agent);
+
+        const brokerage = brokerageKey(agent.brokerage_name);
+        const key = nameKey(agent.agent_name);
+        if (brokerage && key) {
+            const entries = this.byBrokerage.get(brokerage) ?? [];
+            entries.push({ key, agent });
+            this.byBrokerage.set(brokerage, entries);
+        }
+    }
+}
+
+/**
+ * Whether one record is a team member queued from the other's profile, or both are from one team
+ */
+function isSameTeam(a: AgentListItem, b: AgentListItem): boolean {
+    return a.team_lead_profile_url === b.profile_url
+        || b.team_lead_profile_url === a.profile_url
+        || (a.team_lead_profile_url !== undefined && a.team_lead_profile_url === b.team_lead_profile_url);
+}
@@ -0,0 +1,496 @@
+import { AgentListItem, AgentDetails, AgentReview, AgentTeamMember, AgentTransaction, ProfileFieldGroup } from './types';
+import { ScrapeError } from './errors';
+import { formatCurrency } from './utils';
+
+/**
+ * Pure parsers for Zillow's `__NEXT_DATA__` payloads.
+ * These run in Node on the raw script text, so they need no browser.
+ */
+
+/**
+ * Parse raw `__NEXT_DATA__` text (or an already parsed object)
+ */
+function readNextData(json: string | object): unknown {
+    return typeof json === 'string' ? JSON.parse(json) : json;
+}
+
+/**
+ * Whether a parsed JSON value is an object with named keys
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a dotted path ("a.b.0.c") from a parsed JSON value; undefined once a step is missing
+ */
+function at(source: unknown, path: string): unknown {
+    return path.split('.').reduce<unknown>((node, key) => {
+        if (Array.isArray(node)) return node[Number(key)];
+        return isRecord(node) ? node[key] : undefined;
+    }, source);
+}
+
+/**
+ * A positive finite number, or null for anything else (0, missing, non-numeric)
+ */
+function toPositiveNumber(value: unknown): number | null {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Agent details with every field unset
+ */
+export function emptyAgentDetails(): AgentDetails {
+    return {
+        badge_type: null,
+        sales_last_12_months: null,
+        total_sales: null,
+        average_price: null,
+        price_range: null,
+        average_price_usd: null,
+        price_min_usd: null,
+        price_max_usd: null,
+        team_members_count: null,
+        phone: null,
+        brokerage_name: null,
+        license_number: null,
+        photo_url: null,
+        years_experience: null,
+        languages: null,
+        specialties: null,
+        service_area_cities: null,
+        service_area_zips: null
+    };
+}
+
+/**
+ * All optional profile field groups
+ */
+export const PROFILE_FIELD_GROUPS: ProfileFieldGroup[] = ['contact', 'brokerage', 'profile', 'expertise', 'service_areas'];
+
+/**
+ * Read the first non-empty value among several dotted paths
+ */
+function pick(source: unknown, paths: string[]): unknown {
+    for (const path of paths) {
+        const value = at(source, path);
+        if (value !== undefined && value !== null && value !== '') {
+            return value;
+        }
+    }
+    return null;
+}
+
+/**
+ * A trimmed non-empty string, or null
+ */
+function toText(value: unknown): string | null {
+    if (typeof value === 'number') return String(value);
+    if (typeof value !== 'string') return null;
+    const text = value.trim();
+    return text ? text : null;
+}
+
+/**
+ * Make a site-relative Zillow link ("/profile/jdoe/") absolute
+ */
+function toZillowUrl(value: unknown): string | null {
+    const url = toText(value);
+    return url && url.startsWith('/') ? `https://www.zillow.com${url}` : url;
+}
+
+/**
+ * Normalize a list that may be an array of strings/objects or a comma-separated string
+ */
+function toTextList(value: unknown, key = 'text'): string[] | null {
+    const items = typeof value === 'string'
+        ? value.split(',')
+        : Array.isArray(value)
+            ? value.map(item => (isRecord(item) ? item[key] ?? item.name ?? item.title : item))
+            : [];
+    const list = [...new Set(items.map(toText).filter((item): item is string => item !== null))];
+    return list.length > 0 ? list : null;
+}
+
+/**
+ * Look up an entry of the "Professional information" term/description list
+ */
+function professionalInfo(pageProps: Record<string, unknown>, termPattern: RegExp): unknown {
+    const entries = pageProps.professionalInformation;
+    if (!Array.isArray(entries)) return null;
+
+    const entry: unknown = entries.find(item => isRecord(item) && typeof item.term === 'string' && termPattern.test(item.term));
+    if (!isRecord(entry)) return null;
+    return entry.description ?? entry.lines ?? null;
+}
+
+/**
+ * Extract the optional field groups into `details`
+ */
+function extractFieldGroups(pageProps: Record<string, unknown>, details: AgentDetails, groups: ProfileFieldGroup[]): void {
+    const user = pageProps.displayUser;
+
+    if (groups.includes('contact')) {
+        details.phone = toText(pick(user, ['phoneNumbers.cell', 'phoneNumbers.business', 'phoneNumbers.brokerage', 'phoneNumber']))
+            ?? toText(professionalInfo(pageProps, /phone/i));
+    }
+
+    if (groups.includes('brokerage')) {
+        details.brokerage_name = toText(pick(user, ['businessName', 'brokerageName']))
+            ?? toText(pick(pageProps, ['brokerageInfo.name', 'professionalInformation.brokerageName']));
+
+        const license = pick(user, ['licenseNumber', 'licenses.0.number'])
+            ?? professionalInfo(pageProps, /licen[cs]e/i);
+        const licenseText = toText(Array.isArray(license) ? license[0] : license);
+        // Values often read like "License #12345 (WA)"; keep the number itself
+        details.license_number = licenseText?.match(/[A-Z0-9-]*\d[A-Z0-9-]*/i)?.[0] ?? licenseText;
+    }
+
+    if (groups.includes('profile')) {
+        details.photo_url = toText(pick(user, ['profileImageUrl', 'imageUrl', 'photoUrl', 'profilePhotoSrc']));
+
+        const years = pick(pageProps, ['getToKnowMe.yearsInIndustry', 'displayUser.yearsInIndustry', 'aboutMe.yearsOfExperience'])
+            ?? professionalInfo(pageProps, /years? (of )?experience|in industry/i);
+        const yearsMatch = toText(years)?.match(/\d+/);
+        details.years_experience = yearsMatch ? parseInt(yearsMatch[0], 10) : null;
+    }
+
+    if (groups.includes('expertise')) {
+        details.languages = toTextList(pick(pageProps, ['getToKnowMe.languages', 'displayUser.languages'])
+            ?? professionalInfo(pageProps, /language/i));
+        details.specialties = toTextList(pick(pageProps, ['getToKnowMe.specialties', 'displayUser.specialties', 'specialties'])
+            ?? professionalInfo(pageProps, /specialt/i));
+    }
+
+    if (groups.includes('service_areas')) {
+        const areas = toTextList(pick(pageProps, ['serviceAreas', 'getToKnowMe.serviceAreas', 'displayUser.serviceAreas']));
+        if (areas) {
+            const zips = areas.filter(area => /^\d{5}$/.test(area));
+            const cities = areas.filter(area => !/^\d{5}$/.test(area));
+            details.service_area_zips = zips.length > 0 ? zips : null;
+            details.service_area_cities = cities.length > 0 ? cities : null;
+        }
+    }
+}
+
+/**
+ * Extract agent cards from a directory list page payload.
+ * Returns an empty array when the results cards are missing.
+ */
+export function parseListPageNextData(json: string | object): AgentListItem[] {
+    const data = readNextData(json);
+
+    // Navigate to the results cards
+    const resultsCards = at(data, 'props.pageProps.displayData.agentDirectoryFinderDisplay.searchResults.results.resultsCards');
+
+    if (!Array.isArray(resultsCards)) {
+        return [];
+    }
+
+    const agents: AgentListItem[] = [];
+
+    for (const card of resultsCards) {
+        // Skip non-profile cards (like PLC ads)
+        if (!isRecord(card) || card.__typename !== 'AgentDirectoryFinderProfileResultsCard') {
+            continue;
+        }
+
+        const name = typeof card.cardTitle === 'string' ? card.cardTitle : null;
+        const url = typeof card.cardActionLink === 'string' ? card.cardActionLink : null;
+        const rating = toPositiveNumber(at(card, 'reviewInformation.reviewAverage')) ?? 0;
+
+        // Parse review count from text like "(2390)"
+        const reviewCountText = at(card, 'reviewInformation.reviewCountText');
+        const reviewText = typeof reviewCountText === 'string' && reviewCountText ? reviewCountText : '(0)';
+        const reviewMatch = reviewText.replace(/,/g, '').match(/\((\d+)\)/);
+        const reviews = reviewMatch ? parseInt(reviewMatch[1], 10) : 0;
+
+        if (name && url && rating > 0) {
+            agents.push({
+                agent_name: name,
+                profile_url: url,
+                rating_stars: rating,
+                review_count: reviews
+            });
+        }
+    }
+
+    return agents;
+}
+
+/**
+ * Extract profile details from an agent profile page payload.
+ * Fields that are absent from the payload, or belong to a field group
+ * that was not requested, are left null; a payload without
+ * `props.pageProps` throws a schema_mismatch ScrapeError.
+ */
+export function parseProfileNextData(
+    json: string | object,
+    fieldGroups: ProfileFieldGroup[] = PROFILE_FIELD_GROUPS
+): AgentDetails {
+    const data = readNextData(json);
+    const pageProps = at(data, 'props.pageProps');
+
+    const details = emptyAgentDetails();
+
+    if (!isRecord(pageProps)) {
+        throw new ScrapeError('schema_mismatch', 'Profile __NEXT_DATA__ has no props.pageProps');
+    }
+
+    // Extract sales stats
+    const salesStats = pageProps.agentSalesStats;
+    if (isRecord(salesStats)) {
+        details.sales_last_12_months = toPositiveNumber(salesStats.countLastYear);
+        details.total_sales = toPositiveNumber(salesStats.countAllTime);
+
+        // Keep raw dollar amounts alongside the display strings
+        const avgPrice = toPositiveNumber(salesStats.averageValueThreeYear);
+        if (avgPrice !== null) {
+            details.average_price_usd = avgPrice;
+            details.average_price = formatCurrency(avgPrice);
+        }
+
+        const minPrice = toPositiveNumber(salesStats.priceRangeThreeYearMin);
+        const maxPrice = toPositiveNumber(salesStats.priceRangeThreeYearMax);
+        details.price_min_usd = minPrice;
+        details.price_max_usd = maxPrice;
+        if (minPrice !== null && maxPrice !== null) {
+            details.price_range = `${formatCurrency(minPrice)} - ${formatCurrency(maxPrice)}`;
+        }
+    }
+
+    // Extract badge from graphQLData
+    const graphQLData = pageProps.graphQLData;
+    if (isRecord(graphQLData)) {
+        if (graphQLData.isPremium === true) {
+            details.badge_type = 'Zillow Pro';
+        } else if (graphQLData.premierAgentSection) {
+            details.badge_type = 'Premier Agent';
+        }
+    }
+
+    // Extract team members count
+    const teamChildren = at(pageProps, 'teamDisplayInformation.teamLeadInfo.children');
+    if (Array.isArray(teamChildren)) {
+        details.team_members_count = teamChildren.length;
+    }
+
+    extractFieldGroups(pageProps, details, fieldGroups);
+
+    return details;
+}
+
+/**
+ * Map a sub-rating label like "Local knowledge" to "local_knowledge"
+ */
+function subRatingKey(label: string): string {
+    return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/**
+ * Normalize one raw review object
+ */
+function parseReview(raw: Record<string, unknown>, agent: Pick<AgentListItem, 'profile_url' | 'agent_name'>): AgentReview {
+    let subRatings: Record<string, number> | null = null;
+    const rawSubRatings = pick(raw, ['subRatings', 'subratings', 'ratings']);
+    if (Array.isArray(rawSubRatings)) {
+        subRatings = {};
+        for (const item of rawSubRatings) {
+            const label = toText(pick(item, ['ratingType', 'name', 'label']));
+            const score = Number(pick(item, ['score', 'rating', 'value']) ?? NaN);
+            if (label && Number.isFinite(score)) {
+                subRatings[subRatingKey(label)] = score;
+            }
+        }
+    } else if (isRecord(rawSubRatings)) {
+        subRatings = {};
+        for (const [label, score] of Object.entries(rawSubRatings)) {
+            if (typeof score === 'number') {
+                subRatings[subRatingKey(label)] = score;
+            }
+        }
+    }
+
+    const rating = Number(pick(raw, ['rating', 'overallRating', 'reviewRating']));
+
+    return {
+        profile_url: agent.profile_url,
+        agent_name: agent.agent_name,
+        review_id: toText(pick(raw, ['reviewId', 'id', 'encodedReviewId'])),
+        reviewer: toText(pick(raw, ['reviewer.screenName', 'reviewer.name', 'reviewerName', 'screenName'])),
+        date: toText(pick(raw, ['createDate', 'reviewDate', 'date', 'submitDate'])),
+        rating: Number.isFinite(rating) && rating > 0 ? rating : null,
+        sub_ratings: subRatings && Object.keys(subRatings).length > 0 ? subRatings : null,
+        transaction_type: toText(pick(raw, ['workDescription', 'transactionType', 'serviceProvided', 'workType'])),
+        text: toText(pick(raw, ['reviewComment', 'comment', 'text', 'body'])),
+        agent_reply: toText(pick(raw, ['reply.replyText', 'reply.text', 'reply.comment', 'agentReply', 'response.text']))
+    };
+}
+
+/**
+ * Extract reviews from any payload that carries a reviews list: the profile's
+ * `__NEXT_DATA__` or a JSON response fetched by "load more reviews".
+ */
+export function parseReviewsPayload(
+    payload: unknown,
+    agent: Pick<AgentListItem, 'profile_url' | 'agent_name'>
+): AgentReview[] {
+    const reviews = pick(payload, [
+        'props.pageProps.reviewsData.reviews',
+        'props.pageProps.reviews',
+        'reviewsData.reviews',
+        'data.reviews',
+        'reviews'
+    ]);
+
+    if (!Array.isArray(reviews)) return [];
+    return reviews
+        .filter(isRecord)
+        .map(review => parseReview(review, agent));
+}
+
+/**
+ * Extract the reviews embedded in a profile page payload
+ */
+export function parseProfileReviews(
+    json: string | object,
+    agent: Pick<AgentListItem, 'profile_url' | 'agent_name'>
+): AgentReview[] {
+    return parseReviewsPayload(readNextData(json), agent);
+}
+
+/**
+ * Map a "represented" label ("Seller", "Buyer and Seller", "Listing agent") to a side
+ */
+function toRepresentedSide(value: unknown): AgentTransaction['represented'] {
+    const text = toText(value)?.toLowerCase();
+    if (!text) return null;
+
+    const buyer = /buyer/.test(text);
+    const seller = /seller|listing/.test(text);
+    if (buyer && seller) return 'both';
+    if (buyer) return 'buyer';
+    if (seller) return 'seller';
+    return null;
+}
+
+/**
+ * A numeric value from a number, a "$1,250,000" string, or an object like { value: 1250000 }
+ */
+function toAmount(value: unknown): number | null {
+    if (isRecord(value)) {
+        return toAmount(value.value ?? value.price ?? value.amount);
+    }
+    if (typeof value === 'string') {
+        return toPositiveNumber(Number(value.replace(/[$,\s]/g, '')));
+    }
+    return toPositiveNumber(value);
+}
+
+/**
+ * Normalize one raw past sale or listing object
+ */
+function parseTransaction(
+    raw: Record<string, unknown>,
+    kind: AgentTransaction['kind'],
+    agent: Pick<AgentListItem, 'profile_url' | 'agent_name'>
+): AgentTransaction {
+    const bedrooms = toAmount(pick(raw, ['bedrooms', 'beds', 'homeInfo.bedrooms']));
+    const bathrooms = toAmount(pick(raw, ['bathrooms', 'baths', 'homeInfo.bathrooms']));
+
+    return {
+        profile_url: agent.profile_url,
+        agent_name: agent.agent_name,
+        kind,
+        zpid: toText(pick(raw, ['zpid', 'homeInfo.zpid'])),
+        address: toText(pick(raw, ['street_address', 'streetAddress', 'address.line1', 'address.streetAddress', 'address'])),
+        city: toText(pick(raw, ['city', 'address.city'])),
+        state: toText(pick(raw, ['state', 'address.stateCode', 'address.state'])),
+        zip: toText(pick(raw, ['zipcode', 'zipCode', 'address.postalCode', 'address.zipcode'])),
+        date: toText(pick(raw, kind === 'past_sale'
+            ? ['sold_date', 'soldDate', 'dateSold', 'closeDate']
+            : ['listing_date', 'listingDate', 'datePosted'])),
+        price_usd: toAmount(pick(raw, ['price', 'soldPrice', 'sold_price', 'listPrice'])),
+        represented: kind === 'active_listing'
+            ? 'seller'
+            : toRepresentedSide(pick(raw, ['represented', 'representation', 'agentRole'])),
+        bedrooms,
+        bathrooms,
+        home_url: toZillowUrl(pick(raw, ['home_details_url', 'homeDetailsUrl', 'detailUrl', 'url']))
+    };
+}
+
+/**
+ * Extract past sales and active listings from a profile payload or a
+ * paginated past-sales JSON response.
+ */
+export function parseTransactionsPayload(
+    payload: unknown,
+    agent: Pick<AgentListItem, 'profile_url' | 'agent_name'>
+): AgentTransaction[] {
+    const pastSales = pick(payload, [
+        'props.pageProps.pastSales.past_sales',
+        'props.pageProps.pastSales.pastSales',
+        'pastSales.past_sales',
+        'pastSales.pastSales',
+        'past_sales',
+        'data.pastSales'
+    ]);
+    const listings = pick(payload, [
+        'props.pageProps.forSaleListings.listings',
+        'props.pageProps.forSaleListings',
+        'forSaleListings.listings',
+        'listings'
+    ]);
+
+    const transactions: AgentTransaction[] = [];
+    if (Array.isArray(pastSales)) {
+        for (const raw of pastSales) {
+            if (isRecord(raw)) transactions.push(parseTransaction(raw, 'past_sale', agent));
+        }
+    }
+    if (Array.isArray(listings)) {
+        for (const raw of listings) {
+            if (isRecord(raw)) transactions.push(parseTransaction(raw, 'active_listing', agent));
+        }
+    }
+    return transactions;
+}
+
+/**
+ * Extract the past sales and listings embedded in a profile page payload
+ */
+export function parseProfileTransactions(
+    json: string | object,
+    agent: Pick<AgentListItem, 'profile_url' | 'agent_name'>
+): AgentTransaction[] {
+    return parseTransactionsPayload(readNextData(json), agent);
+}
+
+/**
+ * Extract the members of a team from the team lead's profile payload.
+ * Returns an empty array for agents that do not lead a team.
+ */
+export function parseProfileTeamMembers(
+    json: string | object,
+    lead: Pick<AgentListItem, 'profile_url' | 'agent_name'>
+): AgentTeamMember[] {
+    const children = at(readNextData(json), 'props.pageProps.teamDisplayInformation.teamLeadInfo.children');
+    if (!Array.isArray(children)) return [];
+
+    const members: AgentTeamMember[] = [];
+    for (const child of children) {
+        const name = toText(pick(child, ['name', 'displayName', 'fullName', 'screenName']));
+        if (!name) continue;
+
+        members.push({
+            team_lead_profile_url: lead.profile_url,
+            team_lead_name: lead.agent_name,
+            agent_name: name,
+            profile_url: toZillowUrl(pick(child, ['profileLink', 'profileUrl', 'profileURL', 'url'])),
+            role: toText(pick(child, ['role', 'teamRole', 'title', 'jobTitle']))
+        });
+    }
+    return members;
+}
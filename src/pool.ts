@@ -0,0 +1,165 @@
+import { delay } from './utils';
+import { Logger, defaultLogger } from './logger';
+
+/**
+ * How a finished task went, used to adapt concurrency
+ */
+export type TaskOutcome = 'ok' | 'error' | 'challenge';
+
+/**
+ * Options for the detail page worker pool
+ */
+export interface WorkerPoolOptions {
+    concurrency: number;        // Maximum (and starting) number of workers
+    minConcurrency: number;     // Adaptive back-off never goes below this
+    requestsPerMinute: number;  // Global request budget across all workers (0 = unlimited)
+    minDelayMs: number;         // Randomized pause before each request...
+    maxDelayMs: number;         // ...between these bounds
+    adaptive: boolean;          // Shrink on challenges/errors, grow back when healthy
+    rampUpAfter: number;        // Consecutive successes needed to add a worker back
+}
+
+/**
+ * Spaces requests evenly so no more than `requestsPerMinute` start in any minute
+ */
+export class RateLimiter {
+    private nextSlot = 0;
+
+    constructor(private readonly requestsPerMinute: number) {}
+
+    async acquire(): Promise<void> {
+        if (this.requestsPerMinute <= 0) return;
+
+        const interval = 60000 / this.requestsPerMinute;
+        const now = Date.now();
+        const slot = Math.max(now, this.nextSlot);
+        this.nextSlot = slot + interval;
+
+        if (slot > now) {
+            await delay(slot - now);
+        }
+    }
+}
+
+/**
+ * Additive-increase / multiplicative-decrease concurrency limit
+ */
+export class AdaptiveConcurrency {
+    private current: number;
+    private successStreak = 0;
+
+    constructor(private readonly options: WorkerPoolOptions, private readonly logger: Logger = defaultLogger) {
+        this.current = options.concurrency;
+    }
+
+    get limit(): number {
+        return this.current;
+    }
+
+    record(outcome: TaskOutcome): void {
+        if (!this.options.adaptive) return;
+
+        if (outcome === 'ok') {
+            this.successStreak++;
+            if (this.successStreak >= this.options.rampUpAfter && this.current < this.options.concurrency) {
+                this.current++;
+                this.successStreak = 0;
+                this.logger.info(`Pool healthy, raising concurrency to ${this.current}`, { concurrency: this.current });
+            }
+            return;
+        }
+
+        this.successStreak = 0;
+        const next = outcome === 'challenge'
+            ? Math.floor(this.current / 2)
+            : this.current - 1;
+        const clamped = Math.max(this.options.minConcurrency, next);
+        if (clamped < this.current) {
+            this.current = clamped;
+            this.logger.warn(`Pool backing off after ${outcome}, lowering concurrency to ${this.current}`, { concurrency: this.current, outcome });
+        }
+    }
+}
+
+/**
+ * Work queue processed by a fixed set of workers. Each worker takes the next item
+ * as soon as it is free, so one slow task never stalls the others.
+ */
+export class WorkerPool<T, R> {
+    private readonly limiter: RateLimiter;
+    private readonly concurrency: AdaptiveConcurrency;
+    private stopped = false;
+
+    constructor(private readonly options: WorkerPoolOptions, logger: Logger = defaultLogger) {
+        this.limiter = new RateLimiter(options.requestsPerMinute);
+        this.concurrency = new AdaptiveConcurrency(options, logger);
+    }
+
+    /**
+     * Run `task` over every item. `assess` maps each result to an outcome
+     * for adaptive concurrency; `onResult` is called as each task finishes.
+     */
+    async run(
+        items: T[],
+        task: (item: T, index: number) => Promise<R>,
+        assess: (result: R) => TaskOutcome,
+        onResult?: (result: R, item: T, index: number) => void | Promise<void>
+    ): Promise<R[]> {
+        const results: R[] = new Array(items.length);
+        let nextIndex = 0;
+        const released: number[] = [];  // Claimed items given back by a worker that was stopped
+
+        const worker = async (workerId: number): Promise<void> => {
+            while (!this.stopped && (released.length > 0 || nextIndex < items.length)) {
+                // Workers above the current adaptive limit idle until it rises again
+                if (workerId >= this.concurrency.limit) {
+                    await delay(500);
+                    continue;
+                }
+
+                const index = released.shift() ?? nextIndex++;
+                const item = items[index];
+
+                await delay(this.randomPause());
+                await this.limiter.acquire();
+
+                // Stopped while waiting: start no new request
+                if (this.stopped) {
+                    released.push(index);
+                    break;
+                }
+
+                const result = await task(item, index);
+                results[index] = result;
+                this.concurrency.record(assess(result));
+                await onResult?.(result, item, index);
+            }
+        };
+
+        // One worker failing stops the others; wait for their tasks in flight to settle
+        // before rejecting, so the caller never cleans up under a running task
+        const workerCount = Math.min(this.options.concurrency, items.length);
+        const settled = await Promise.allSettled(Array.from({ length: workerCount }, (_, id) => worker(id).catch(err => {
+            this.stopped = true;
+            throw err;
+        })));
+        const failure = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+        if (failure) {
+            throw failure.reason;
+        }
+
+        return results;
+    }
+
+    /**
+     * Stop handing out items; tasks already running finish normally
+     */
+    stop(): void {
+        this.stopped = true;
+    }
+
+    private randomPause(): number {
+        const { minDelayMs, maxDelayMs } = this.options;
+        return minDelayMs + Math.floor(Math.random() * Math.max(0, maxDelayMs - minDelayMs));
+    }
+}
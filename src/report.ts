@@ -0,0 +1,202 @@
+import { ScrapeErrorKind } from './errors';
+import { ChallengeOutcome } from './challenges';
+import { AgentData, ScraperMetadata, ScraperOptions } from './types';
+import { SchemaDriftReport } from './schemas';
+import { SessionStats } from './sessions';
+import { RefreshStats } from './cache';
+
+/**
+ * Counters collected by the scraper while a run is in progress
+ */
+export interface RunCounters {
+    list_pages_visited: number;
+    detail_pages_visited: number;
+    captcha_encounters: number;
+    challenge_outcomes: Partial<Record<ChallengeOutcome, number>>;
+}
+
+/**
+ * Share of detailed agents with a field present
+ */
+export interface FillRate {
+    count: number;
+    rate: number;   // 0-1 over successfully detailed agents
+}
+
+/**
+ * Distribution of per-agent scrape times in seconds
+ */
+export interface TimingStats {
+    count: number;
+    mean: number | null;
+    min: number | null;
+    p50: number | null;
+    p90: number | null;
+    p95: number | null;
+    p99: number | null;
+    max: number | null;
+}
+
+/**
+ * Metadata and data-quality report for one run, saved next to the results
+ */
+export interface RunReport {
+    metadata: ScraperMetadata;
+    started_at: string;
+    finished_at: string;
+    options: ScraperOptions;
+    list_url: string | null;
+    pages: {
+        list: number;
+        detail: number;
+    };
+    agents: {
+        listed: number;
+        detailed: number;
+        failed: number;
+        duplicates: number;     // Records flagged as likely the same agent as an earlier one
+    };
+    fill_rates: {
+        badges: FillRate;
+        sales: FillRate;
+        teams: FillRate;
+        prices: FillRate;
+    };
+    errors_by_type: Partial<Record<ScrapeErrorKind, number>>;
+    captcha_encounters: number;
+    challenge_outcomes: Partial<Record<ChallengeOutcome, number>>;
+    timing: TimingStats;
+    schema_drift: SchemaDriftReport;
+    sessions: SessionStats[];
+    refresh: RefreshStats | null;   // Refresh mode only: profiles reused from the cache and why the rest were re-scraped
+}
+
+/**
+ * Nearest-rank percentile of an ascending sorted list
+ */
+export function percentile(sorted: number[], p: number): number | null {
+    if (sorted.length === 0) return null;
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+function round(value: number | null, digits = 2): number | null {
+    return value === null ? null : Number(value.toFixed(digits));
+}
+
+function timingStats(values: number[]): TimingStats {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mean = sorted.length > 0 ? sorted.reduce((sum, v) => sum + v, 0) / sorted.length : null;
+    return {
+        count: sorted.length,
+        mean: round(mean),
+        min: round(sorted[0] ?? null),
+        p50: round(percentile(sorted, 50)),
+        p90: round(percentile(sorted, 90)),
+        p95: round(percentile(sorted, 95)),
+        p99: round(percentile(sorted, 99)),
+        max: round(sorted[sorted.length - 1] ?? null)
+    };
+}
+
+function fillRate(agents: AgentData[], isFilled: (agent: AgentData) => boolean): FillRate {
+    const count = agents.filter(isFilled).length;
+    return { count, rate: agents.length > 0 ? Number((count / agents.length).toFixed(4)) : 0 };
+}
+
+/**
+ * Build the run report from results and the counters gathered during the run
+ */
+export function buildRunReport(input: {
+    options: ScraperOptions;
+    listUrl: string | null;
+    startTime: number;
+    endTime: number;
+    listedCount: number;
+    results: AgentData[];
+    counters: RunCounters;
+    drift: SchemaDriftReport;
+    sessions: SessionStats[];
+    refresh: RefreshStats | null;
+}): RunReport {
+    const { results, counters } = input;
+    const detailed = results.filter(r => r.scrape_status === 'ok');
+    const totalTime = (input.endTime - input.startTime) / 1000;
+
+    const errorsByType: Partial<Record<ScrapeErrorKind, number>> = {};
+    for (const agent of results) {
+        if (agent.error_type) {
+            errorsByType[agent.error_type] = (errorsByType[agent.error_type] ?? 0) + 1;
+        }
+    }
+
+    const times = results
+        .map(r => r.scrape_time_seconds)
+        .filter((t): t is number => typeof t === 'number');
+
+    return {
+        metadata: {
+            total_agents: results.length,
+            total_time_seconds: Number(totalTime.toFixed(2)),
+            average_time_per_agent: results.length > 0 ? Number((totalTime / results.length).toFixed(2)) : 0,
+            timestamp: new Date(input.startTime).toISOString()
+        },
+        started_at: new Date(input.startTime).toISOString(),
+        finished_at: new Date(input.endTime).toISOString(),
+        options: input.options,
+        list_url: input.listUrl,
+        pages: {
+            list: counters.list_pages_visited,
+            detail: counters.detail_pages_visited
+        },
+        agents: {
+            listed: input.listedCount,
+            detailed: detailed.length,
+            failed: results.length - detailed.length,
+            duplicates: results.filter(r => r.duplicate_of).length
+        },
+        fill_rates: {
+            badges: fillRate(detailed, a => a.badge_type !== null),
+            sales: fillRate(detailed, a => a.sales_last_12_months !== null),
+            teams: fillRate(detailed, a => a.team_members_count !== null),
+            prices: fillRate(detailed, a => a.average_price_usd !== null)
+        },
+        errors_by_type: errorsByType,
+        captcha_encounters: counters.captcha_encounters,
+        challenge_outcomes: counters.challenge_outcomes,
+        timing: timingStats(times),
+        schema_drift: input.drift,
+        sessions: input.sessions,
+        refresh: input.refresh
+    };
+}
+
+/**
+ * Console summary of a run report
+ */
+export function formatReportSummary(report: RunReport): string {
+    const pct = (rate: FillRate) => `${rate.count}/${report.agents.detailed} (${(rate.rate * 100).toFixed(1)}%)`;
+    const errors = Object.entries(report.errors_by_type);
+    const outcomes = Object.entries(report.challenge_outcomes);
+    const { timing } = report;
+
+    const lines = [
+        'Summary:',
+        `  Agents listed: ${report.agents.listed} | detailed: ${report.agents.detailed} | failed: ${report.agents.failed} | likely duplicates: ${report.agents.duplicates}`,
+        `  Pages visited: ${report.pages.list} list, ${report.pages.detail} detail`,
+        ...(report.refresh
+            ? [`  Refresh: ${report.refresh.reused} reused from cache | re-scraped ${report.refresh.new} new, ${report.refresh.stale} stale, `
+                + `${report.refresh.changed} changed, ${report.refresh.incomplete} incomplete`]
+            : []),
+        `  Agents with badges: ${pct(report.fill_rates.badges)}`,
+        `  Agents with sales data: ${pct(report.fill_rates.sales)}`,
+        `  Teams: ${pct(report.fill_rates.teams)}`,
+        `  Agents with prices: ${pct(report.fill_rates.prices)}`,
+        `  CAPTCHA encounters: ${report.captcha_encounters}${outcomes.length > 0 ? ` (${outcomes.map(([outcome, count]) => `${outcome}=${count}`).join(', ')})` : ''}`,
+        `  Schema drift: ${report.schema_drift.pages_with_drift}/${report.schema_drift.pages_checked} pages`,
+        `  Errors: ${errors.length > 0 ? errors.map(([kind, count]) => `${kind}=${count}`).join(', ') : 'none'}`,
+        `  Time per agent (s): p50 ${timing.p50 ?? 'N/A'} | p90 ${timing.p90 ?? 'N/A'} | p99 ${timing.p99 ?? 'N/A'} | max ${timing.max ?? 'N/A'}`,
+        `  Total time: ${report.metadata.total_time_seconds}s`
+    ];
+    return lines.join('\n');
+}
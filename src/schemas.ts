@@ -0,0 +1,253 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * JSON type a schema field is expected to have
+ */
+export type SchemaType = 'array' | 'object' | 'number' | 'string' | 'boolean';
+
+/**
+ * One JSON path the parsers depend on. A `*` segment stands for every element of an array.
+ */
+export interface SchemaField {
+    path: string;
+    type: SchemaType;
+    required: boolean;  // Must be present on every page; otherwise only its type is checked when present
+}
+
+/**
+ * Declared shape of one kind of `__NEXT_DATA__` payload
+ */
+export interface PayloadSchema {
+    name: 'list_page' | 'profile_page';
+    fields: SchemaField[];
+}
+
+/**
+ * A field that did not match its schema on one payload
+ */
+export interface SchemaViolation {
+    path: string;
+    expected: SchemaType;
+    found: string;      // "missing" or the JSON type found instead
+}
+
+const RESULTS_CARDS = 'props.pageProps.displayData.agentDirectoryFinderDisplay.searchResults.results.resultsCards';
+
+/**
+ * Paths read by parseListPageNextData
+ */
+export const LIST_PAGE_SCHEMA: PayloadSchema = {
+    name: 'list_page',
+    fields: [
+        { path: 'props.pageProps', type: 'object', required: true },
+        { path: RESULTS_CARDS, type: 'array', required: true },
+        { path: `${RESULTS_CARDS}.*.__typename`, type: 'string', required: true },
+        { path: `${RESULTS_CARDS}.*.cardTitle`, type: 'string', required: false },
+        { path: `${RESULTS_CARDS}.*.cardActionLink`, type: 'string', required: false },
+        { path: `${RESULTS_CARDS}.*.reviewInformation`, type: 'object', required: false },
+        { path: `${RESULTS_CARDS}.*.reviewInformation.reviewAverage`, type: 'number', required: false },
+        { path: `${RESULTS_CARDS}.*.reviewInformation.reviewCountText`, type: 'string', required: false }
+    ]
+};
+
+/**
+ * Paths read by parseProfileNextData. Sales stats and teams are legitimately
+ * absent for some agents, so only their types are checked.
+ */
+export const PROFILE_PAGE_SCHEMA: PayloadSchema = {
+    name: 'profile_page',
+    fields: [
+        { path: 'props.pageProps', type: 'object', required: true },
+        { path: 'props.pageProps.displayUser', type: 'object', required: true },
+        { path: 'props.pageProps.graphQLData', type: 'object', required: true },
+        { path: 'props.pageProps.graphQLData.isPremium', type: 'boolean', required: false },
+        { path: 'props.pageProps.agentSalesStats', type: 'object', required: false },
+        { path: 'props.pageProps.agentSalesStats.countLastYear', type: 'number', required: false },
+        { path: 'props.pageProps.agentSalesStats.countAllTime', type: 'number', required: false },
+        { path: 'props.pageProps.agentSalesStats.averageValueThreeYear', type: 'number', required: false },
+        { path: 'props.pageProps.agentSalesStats.priceRangeThreeYearMin', type: 'number', required: false },
+        { path: 'props.pageProps.agentSalesStats.priceRangeThreeYearMax', type: 'number', required: false },
+        { path: 'props.pageProps.teamDisplayInformation.teamLeadInfo.children', type: 'array', required: false }
+    ]
+};
+
+function jsonType(value: unknown): string {
+    if (value === undefined || value === null) return 'missing';
+    return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * Whether a value can hold keys (an object or an array)
+ */
+function isContainer(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object';
+}
+
+/**
+ * Values at a dotted path, one per container holding its last segment.
+ * A missing ancestor yields no values; `*` expands over array elements.
+ */
+function resolvePath(root: unknown, path: string): unknown[] {
+    const segments = path.split('.');
+    let nodes: unknown[] = [root];
+
+    for (const segment of segments.slice(0, -1)) {
+        nodes = nodes.flatMap(node => {
+            if (segment === '*') return Array.isArray(node) ? node : [];
+            const child = isContainer(node) ? node[segment] : undefined;
+            return child === undefined || child === null ? [] : [child];
+        });
+    }
+
+    const last = segments[segments.length - 1];
+    return nodes.filter(isContainer).map(node => node[last]);
+}
+
+/**
+ * Check a parsed payload against a schema. Null counts as missing.
+ */
+export function validatePayload(schema: PayloadSchema, data: unknown): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+
+    for (const field of schema.fields) {
+        const values = resolvePath(data, field.path);
+
+        // Without a wildcard every path resolves to one value unless an ancestor is missing,
+        // which means the field is missing too. Under a wildcard, an empty array is fine.
+        if (values.length === 0) {
+            if (field.required && !field.path.includes('*')) {
+                violations.push({ path: field.path, expected: field.type, found: 'missing' });
+            }
+            continue;
+        }
+
+        for (const value of values) {
+            const found = jsonType(value);
+            if (found === 'missing' ? field.required : found !== field.type) {
+                violations.push({ path: field.path, expected: field.type, found });
+                break;
+            }
+        }
+    }
+    return violations;
+}
+
+/**
+ * A schema path that drifted, aggregated over the pages where it did
+ */
+export interface SchemaDriftPath {
+    schema: PayloadSchema['name'];
+    path: string;
+    expected: SchemaType;
+    found: string;
+    pages: number;
+    first_url: string;
+    sample_file: string | null;     // Payload of the first page where the path drifted
+}
+
+/**
+ * Schema drift over one run
+ */
+export interface SchemaDriftReport {
+    pages_checked: number;
+    pages_with_drift: number;
+    drift_rate: number;     // 0-1 over checked pages
+    paths: SchemaDriftPath[];
+}
+
+/**
+ * Raised after a run when drift affected more pages than allowed
+ */
+export class SchemaDriftError extends Error {
+    constructor(public readonly report: SchemaDriftReport, public readonly maxPercent: number) {
+        super(`Schema drift on ${(report.drift_rate * 100).toFixed(1)}% of pages exceeds the ${maxPercent}% limit`);
+        this.name = 'SchemaDriftError';
+    }
+}
+
+/**
+ * Validates payloads as they are scraped and keeps the drift seen so far.
+ * The payload of the first page showing each drifted path is saved to `sampleDir`.
+ */
+export class SchemaDriftTracker {
+    private pagesChecked = 0;
+    private pagesWithDrift = 0;
+    private readonly drifted = new Map<string, SchemaDriftPath>();
+
+    constructor(private readonly sampleDir: string | null) {}
+
+    /**
+     * Validate one page's payload (raw `__NEXT_DATA__` text or parsed).
+     * Text that is not JSON is left to the parsers to report.
+     */
+    check(schema: PayloadSchema, payload: string | object, url: string): SchemaViolation[] {
+        let data: unknown;
+        try {
+            data = typeof payload === 'string' ? JSON.parse(payload) : payload;
+        } catch {
+            return [];
+        }
+
+        this.pagesChecked++;
+        const violations = validatePayload(schema, data);
+        if (violations.length === 0) return violations;
+
+        this.pagesWithDrift++;
+        let sampleFile: string | null = null;
+        for (const violation of violations) {
+            const key = `${schema.name}|${violation.path}|${violation.found}`;
+            const known = this.drifted.get(key);
+            if (known) {
+                known.pages++;
+                continue;
+            }
+
+            sampleFile = sampleFile ?? this.saveSample(schema, data);
+            this.drifted.set(key, {
+                schema: schema.name,
+                path: violation.path,
+                expected: violation.expected,
+                found: violation.found,
+                pages: 1,
+                first_url: url,
+                sample_file: sampleFile
+            });
+        }
+        return violations;
+    }
+
+    report(): SchemaDriftReport {
+        return {
+            pages_checked: this.pagesChecked,
+            pages_with_drift: this.pagesWithDrift,
+            drift_rate: this.pagesChecked > 0 ? Number((this.pagesWithDrift / this.pagesChecked).toFixed(4)) : 0,
+            paths: [...this.drifted.values()].sort((a, b) => b.pages - a.pages)
+        };
+    }
+
+    private saveSample(schema: PayloadSchema, data: unknown): string | null {
+        if (!this.sampleDir) return null;
+        mkdirSync(this.sampleDir, { recursive: true });
+        const path = join(this.sampleDir, `${schema.name}-${this.pagesWithDrift}.json`);
+        writeFileSync(path, JSON.stringify(data, null, 2), 'utf-8');
+        return path;
+    }
+}
+
+/**
+ * Human-readable schema drift report
+ */
+export function formatDriftReport(report: SchemaDriftReport): string {
+    const lines = [
+        `Schema drift: ${report.pages_with_drift}/${report.pages_checked} pages (${(report.drift_rate * 100).toFixed(1)}%)`
+    ];
+    for (const drift of report.paths) {
+        lines.push(`  [${drift.schema}] ${drift.path}: expected ${drift.expected}, found ${drift.found} on ${drift.pages} page(s)`);
+        lines.push(`      first seen: ${drift.first_url}`);
+        if (drift.sample_file) {
+            lines.push(`      sample: ${drift.sample_file}`);
+        }
+    }
+    return lines.join('\n');
+}
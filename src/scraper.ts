@@ -1,201 +1,368 @@
-import { chromium, Browser, Page } from 'playwright';
-import { AgentListItem, AgentDetails, AgentData } from './types';
-import { delay, scrollPageToBottom, parseNumber, waitForPageLoad } from './utils';
+import { EventEmitter } from 'events';
+import { Browser, Page, Response } from 'playwright';
+import { resolve } from 'path';
+import { AgentListItem, AgentDetails, AgentData, AgentReview, AgentTeamMember, AgentTransaction, RelatedRecords, ScraperMetadata, ScraperOptions } from './types';
+import { delay, scrollPageToBottom, parseNumber, waitForPageLoad, readNextDataScript, retryWithBackoff, readAgentListFile, siblingPath } from './utils';
+import { ScrapeError, classifyError } from './errors';
+import {
+    emptyAgentDetails,
+    parseListPageNextData,
+    parseProfileNextData,
+    parseProfileReviews,
+    parseProfileTeamMembers,
+    parseProfileTransactions,
+    parseReviewsPayload,
+    parseTransactionsPayload
+} from './parsers';
+import { DEFAULT_SCRAPER_OPTIONS, validateScraperOptions } from './config';
+import { CheckpointState, CheckpointStore } from './checkpoint';
+import { WorkerPool } from './pool';
+import { OutputSink, createSink } from './sinks';
+import { RunCounters, RunReport, buildRunReport } from './report';
+import { ResponseArchive } from './archive';
+import { ChallengeAbortError, ChallengeEvent, ChallengeHandler } from './challenges';
+import { DEFAULT_USER_AGENTS, DEFAULT_VIEWPORTS, SessionPool, launchChromium, readLineList, readProxyList } from './sessions';
+import { Logger } from './logger';
+import { AgentSearchQuery, buildSearchUrl, pickSearchQuery } from './search';
+import { ProfileCache, RefreshStats, emptyRefreshStats } from './cache';
+import { AgentMerge, DuplicateDetector, canonicalProfileUrl, normalizeListItem } from './normalize';
+import { LIST_PAGE_SCHEMA, PROFILE_PAGE_SCHEMA, PayloadSchema, SchemaDriftTracker } from './schemas';
+
+/**
+ * Responses of the profile reviews endpoint that "load more reviews" calls. Anchored to
+ * the endpoint path, so assets, analytics and other APIs mentioning reviews never match.
+ */
+const REVIEWS_ENDPOINT = /^https:\/\/www\.zillow\.com\/ajax\/review\/ReviewDisplayJSONGetPage\.htm(?:\?|$)/;
+
+/**
+ * Responses of the profile past sales endpoint that "more sales" calls, anchored the same way
+ */
+const PAST_SALES_ENDPOINT = /^https:\/\/www\.zillow\.com\/ajax\/profile\/PastSalesJSONGetPage\.htm(?:\?|$)/;
+
+/**
+ * Everything extracted from one profile page visit
+ */
+interface ProfileScrape {
+    details: AgentDetails;
+    related: RelatedRecords;
+}
+
+/**
+ * Resources shared by the scrapers running the searches of one batch job
+ */
+export interface SharedRunResources {
+    browser: Browser;               // Launched and closed by the batch runner
+    claimedAgents: Set<string>;     // Profile URLs already taken by a search of the batch
+    logger: Logger;                 // The batch's logger, tagged with the search name
+}
+
+/**
+ * Emitted after each list page is processed
+ */
+export interface ListPageEvent {
+    page: number;
+    url: string;
+    agents: AgentListItem[];    // Agents first seen on this page
+    total: number;              // Agents listed so far
+}
+
+/**
+ * Emitted as each agent's record is finished, successfully or not
+ */
+export interface AgentEvent {
+    agent: AgentData;
+    completed: number;          // Records finished so far, including resumed ones
+    total: number;              // Agents known so far (listed plus queued team members)
+}
+
+/**
+ * Emitted when a page fails for good (detail pages after their retries)
+ */
+export interface ScrapeErrorEvent {
+    source: 'list' | 'detail';
+    url: string;
+    agent: AgentListItem | null;
+    error: ScrapeError;
+}
+
+/**
+ * Emitted once when a run ends, also after a cancellation
+ */
+export interface DoneEvent {
+    results: AgentData[];
+    report: RunReport | null;
+    aborted: boolean;
+}
+
+/**
+ * Events of a scraper run, by name
+ */
+export interface ScraperEvents {
+    listPage: ListPageEvent;
+    agent: AgentEvent;
+    error: ScrapeErrorEvent;
+    challenge: ChallengeEvent;
+    done: DoneEvent;
+}
+
+/**
+ * Per-run settings for `ZillowScraper.run()`
+ */
+export interface RunOptions {
+    signal?: AbortSignal;   // Stops the run: pages in flight finish, nothing new starts
+}
+
+/**
+ * Raised by `run()` when its signal is aborted. Finished records are still written
+ * to the outputs and the checkpoint, so the run can be resumed.
+ */
+export class RunAbortedError extends Error {
+    constructor(public readonly results: AgentData[]) {
+        super(`Run aborted after ${results.length} agents`);
+        this.name = 'AbortError';
+    }
+}
+
+export declare interface ZillowScraper {
+    on<E extends keyof ScraperEvents>(event: E, listener: (payload: ScraperEvents[E]) => void): this;
+    once<E extends keyof ScraperEvents>(event: E, listener: (payload: ScraperEvents[E]) => void): this;
+    off<E extends keyof ScraperEvents>(event: E, listener: (payload: ScraperEvents[E]) => void): this;
+    emit<E extends keyof ScraperEvents>(event: E, payload: ScraperEvents[E]): boolean;
+}
 
-export class ZillowScraper {
+/**
+ * Scrapes a Zillow agent directory. Progress is reported through typed events
+ * (`listPage`, `agent`, `error`, `challenge`, `done`) as the run goes.
+ *
+ * Unlike a plain EventEmitter, the scraper only emits `error` when someone listens:
+ * failed agents are also reported through `agent` and never stop the run.
+ */
+export class ZillowScraper extends EventEmitter {
     private browser: Browser | null = null;
-    private readonly listUrl = 'https://www.zillow.com/professionals/real-estate-agent-reviews/seattle-wa/?isTopAgent=true';
-    private agentLimit = 1000;
+    private sessions: SessionPool | null = null;
+    private readonly options: ScraperOptions;
+    private readonly query: AgentSearchQuery;
+    private readonly listUrl: string;
+    private readonly agentLimit: number;
+    private readonly checkpoint: CheckpointStore;
+    private lastRunReport: RunReport | null = null;
+    private counters: RunCounters = ZillowScraper.emptyCounters();
+    private drift = new SchemaDriftTracker(null);
+    private readonly relatedRecords = new Map<string, RelatedRecords>();
+    private listedAgents: AgentListItem[] = [];
+    private readonly archive: ResponseArchive | null;
+    private readonly challengeHandler: ChallengeHandler;
+    private readonly logger: Logger;
+    private signal: AbortSignal | null = null;
+    private agentsTotal = 0;
+    private cache: ProfileCache | null = null;
+    private refreshStats: RefreshStats | null = null;
+    private duplicates = new DuplicateDetector();
 
     /**
-     * Launch browser instance
+     * Options left out take their defaults; invalid options throw OptionsValidationError
      */
-    private async launchBrowser(): Promise<void> {
-        this.browser = await chromium.launch({
-            headless: false,  // Changed to headful - Zillow blocks headless
-            slowMo: 500,       // Slow down to appear more human
-            args: [
-                '--disable-blink-features=AutomationControlled',
-                '--disable-dev-shm-usage',
-                '--no-sandbox'
-            ]
+    constructor(
+        options: Partial<ScraperOptions> = DEFAULT_SCRAPER_OPTIONS,
+        private readonly shared: SharedRunResources | null = null
+    ) {
+        super();
+        this.options = validateScraperOptions({ ...DEFAULT_SCRAPER_OPTIONS, ...options });
+        this.logger = this.shared?.logger ?? Logger.create({ level: this.options.logLevel, format: this.options.logFormat });
+        this.query = pickSearchQuery(this.options);
+        this.listUrl = buildSearchUrl(this.query);
+        this.agentLimit = this.options.limit;
+        this.checkpoint = new CheckpointStore(this.options.checkpointDir, {
+            list_url: this.listUrl,
+            limit: this.agentLimit,
+            agents_file: this.options.agentsFile ? resolve(this.options.agentsFile) : null
+        });
+        this.archive = this.options.replayDir
+            ? new ResponseArchive(this.options.replayDir, 'replay')
+            : this.options.recordDir ? new ResponseArchive(this.options.recordDir, 'record') : null;
+
+        this.challengeHandler = new ChallengeHandler({
+            detectors: this.options.challengeDetectors,
+            strategy: this.options.challengeStrategy,
+            timeoutMs: this.options.challengeTimeoutMs,
+            cooldownMs: this.options.challengeCooldownMs
+        }, this.logger);
+        this.challengeHandler.on('challenge', event => {
+            this.counters.captcha_encounters++;
+            this.counters.challenge_outcomes[event.outcome] = (this.counters.challenge_outcomes[event.outcome] ?? 0) + 1;
+            this.emit('challenge', event);
         });
     }
 
     /**
-     * Close browser instance
+     * Whether the current run's signal has been aborted
+     */
+    private get aborted(): boolean {
+        return this.signal?.aborted ?? false;
+    }
+
+    /**
+     * Report a page that failed for good. Emitted only when listened to (see the class comment).
+     */
+    private reportError(event: ScrapeErrorEvent): void {
+        if (this.listenerCount('error') > 0) {
+            this.emit('error', event);
+        }
+    }
+
+    /**
+     * Launch browser instance (or use the batch's shared one) and open the session pool.
+     * A persistent profile launches its own context instead of a browser.
+     */
+    private async launchBrowser(): Promise<void> {
+        const persistent = this.options.userDataDir !== null && !this.shared;
+        this.browser = persistent ? null : this.shared?.browser ?? await launchChromium(this.options.headless);
+
+        this.sessions = new SessionPool({
+            size: this.options.sessionCount,
+            userAgents: this.options.userAgentsFile ? readLineList(this.options.userAgentsFile) : DEFAULT_USER_AGENTS,
+            viewports: DEFAULT_VIEWPORTS,
+            proxies: this.options.proxiesFile ? readProxyList(this.options.proxiesFile) : [],
+            storageStatePath: this.options.storageStatePath,
+            userDataDir: persistent ? this.options.userDataDir : null,
+            headless: this.options.headless,
+            maxFailures: this.options.maxSessionFailures,
+            onContext: async context => {
+                await this.archive?.attach(context);
+            }
+        }, this.browser, this.logger);
+    }
+
+    /**
+     * Close the sessions (saving their storage state) and the browser instance.
+     * A shared browser is left for the batch runner to close.
      */
     private async closeBrowser(): Promise<void> {
-        if (this.browser) {
+        await this.sessions?.close();
+        this.sessions = null;
+        if (this.browser && !this.shared) {
             await this.browser.close();
-            this.browser = null;
         }
+        this.browser = null;
     }
 
     /**
-     * Scrape list page with pagination support - JSON extraction approach
+     * Scrape list page with pagination support - JSON extraction approach.
+     * When resuming, pagination continues after the last checkpointed page.
      */
-    private async scrapeListPage(): Promise<AgentListItem[]> {
-        if (!this.browser) throw new Error('Browser not initialized');
-
-        const context = await this.browser.newContext({
-            userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-            viewport: { width: 1920, height: 1080 },
-            deviceScaleFactor: 1
-        });
-        const page = await context.newPage();
-        const agents: AgentListItem[] = [];
-        let currentPage = 1;
+    private async scrapeListPage(resumeFrom: CheckpointState | null = null): Promise<AgentListItem[]> {
+        if (!this.sessions) throw new Error('Browser not initialized');
+
+        const session = await this.sessions.acquire();
+        const page = await session.context.newPage();
+        const agents: AgentListItem[] = [...(resumeFrom?.list_items ?? [])];
+        const listedUrls = new Set(agents.map(agent => agent.profile_url));
+        let currentPage = (resumeFrom?.current_page ?? 0) + 1;
+        let paginationFinished = false;
+        let challengedAttempts = 0;
+        let failure: ScrapeError | null = null;
 
         try {
             // Loop through pages until we have enough agents
-            while (agents.length < this.agentLimit) {
-                const pageUrl = currentPage === 1
-                    ? this.listUrl
-                    : `${this.listUrl}&page=${currentPage}`;
+            while (agents.length < this.agentLimit && !this.aborted) {
+                const pageUrl = buildSearchUrl(this.query, currentPage);
 
-                console.log(`\nNavigating to page ${currentPage}...`);
+                await this.challengeHandler.waitIfPaused();
+                this.logger.debug(`Navigating to page ${currentPage}...`, { page: currentPage });
+                this.counters.list_pages_visited++;
                 await page.goto(pageUrl, {
                     waitUntil: 'domcontentloaded', // Faster than 'load'
                     timeout: 60000
                 });
 
-                console.log('Waiting for data...');
+                this.logger.debug('Waiting for data...');
                 try {
                     await page.waitForSelector('#__NEXT_DATA__', { state: 'attached', timeout: 15000 });
                 } catch (e) {
-                    console.log('Wait for JSON timed out. Checking for bot protection...');
-
-                    // Check for common bot protection texts
-                    const isBotProtection = await page.evaluate(() => {
-                        return document.body.innerText.includes('Press and Hold') ||
-                            document.body.innerText.includes('challenge') ||
-                            document.title.includes('Robot') ||
-                            document.title.includes('Captcha');
-                    });
+                    this.logger.debug('Wait for JSON timed out. Checking for bot protection...', { page: currentPage });
 
-                    if (isBotProtection) {
-                        console.log('\n!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!');
-                        console.log('BOT PROTECTION DETECTED!');
-                        console.log('Please switch to the browser window and solve the CAPTCHA manually.');
-                        console.log('The scraper is paused and waiting for you to solve it...');
-                        console.log('!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!\n');
-
-                        // Wait indefinitely for the user to solve it and the data to appear
-                        try {
-                            await page.waitForSelector('#__NEXT_DATA__', { state: 'attached', timeout: 300000 }); // Wait 5 mins
-                            console.log('Captcha solved! Resuming...');
-                            await delay(2000); // Give it a moment to settle
-                        } catch (timeoutErr) {
-                            console.log('Timed out waiting for manual solve. Skipping page...');
-                            continue;
+                    const outcome = await this.challengeHandler.handle(page, 'list', pageUrl);
+                    if (outcome === 'solved') {
+                        await this.sessions.shareCookies(session.context);
+                    }
+                    if (outcome === 'skipped') {
+                        // Try the same page again, but not forever
+                        if (++challengedAttempts > this.options.retries) {
+                            this.logger.warn(`Page ${currentPage} is still challenged after ${challengedAttempts} attempts. Stopping pagination.`, { page: currentPage });
+                            break;
                         }
-                    } else {
-                        console.log('No obvious bot protection found, attempting extraction anyway...');
+                        this.logger.info(`Retrying page ${currentPage}...`, { page: currentPage, attempt: challengedAttempts });
+                        continue;
+                    }
+                    if (outcome === null) {
+                        this.logger.debug('No obvious bot protection found, attempting extraction anyway...');
                     }
                 }
+                challengedAttempts = 0;
 
-                console.log('Extracting agent data from __NEXT_DATA__ JSON...\n');
+                this.logger.debug('Extracting agent data from __NEXT_DATA__ JSON...');
 
                 // Extract agents from __NEXT_DATA__ JSON
-                const extractedAgents = await page.evaluate(() => {
+                let extractedAgents: AgentListItem[] = [];
+                const nextData = await readNextDataScript(page);
+                if (!nextData) {
+                    this.logger.warn('No __NEXT_DATA__ found', { page: currentPage });
+                } else {
+                    this.checkSchema(LIST_PAGE_SCHEMA, nextData, pageUrl);
                     try {
-                        // Find the __NEXT_DATA__ script tag
-                        const scriptTag = document.querySelector('#__NEXT_DATA__');
-                        if (!scriptTag || !scriptTag.textContent) {
-                            console.log('No __NEXT_DATA__ found');
-                            return [];
-                        }
-
-                        const data = JSON.parse(scriptTag.textContent);
-
-                        // Navigate to the results cards
-                        const resultsCards = data?.props?.pageProps?.displayData
-                            ?.agentDirectoryFinderDisplay?.searchResults?.results?.resultsCards;
-
-                        if (!resultsCards || !Array.isArray(resultsCards)) {
-                            console.log('No results cards found in JSON');
-                            return [];
-                        }
-
-                        const agents: Array<{
-                            name: string;
-                            url: string;
-                            rating: number;
-                            reviews: number;
-                        }> = [];
-
-                        for (const card of resultsCards) {
-                            // Skip non-profile cards (like PLC ads)
-                            if (card.__typename !== 'AgentDirectoryFinderProfileResultsCard') {
-                                continue;
-                            }
-
-                            const name = card.cardTitle;
-                            const url = card.cardActionLink;
-                            const rating = card.reviewInformation?.reviewAverage || 0;
-
-                            // Parse review count from text like "(2390)"
-                            const reviewText = card.reviewInformation?.reviewCountText || '(0)';
-                            const reviewMatch = reviewText.match(/\((\d+)\)/);
-                            const reviews = reviewMatch ? parseInt(reviewMatch[1], 10) : 0;
-
-                            if (name && url && rating > 0) {
-                                agents.push({
-                                    name,
-                                    url,
-                                    rating,
-                                    reviews
-                                });
-                            }
-                        }
-
-                        console.log(`Found ${agents.length} agents on this page`);
-                        return agents;
-
+                        extractedAgents = parseListPageNextData(nextData).map(normalizeListItem);
+                        this.logger.debug(`Found ${extractedAgents.length} agents on this page`);
                     } catch (err) {
-                        console.error('Error parsing JSON:', err);
-                        return [];
+                        this.logger.error(`Error parsing JSON: ${classifyError(err).message}`, { page: currentPage });
                     }
-                });
+                }
 
-                // Add newly extracted agents (avoid duplicates)
+                // Add newly extracted agents (avoid duplicates by canonical profile URL)
                 let newAgentsOnPage = 0;
                 for (const agent of extractedAgents) {
                     // Check for duplicates
-                    if (agents.find(a => a.profile_url === agent.url)) continue;
+                    if (listedUrls.has(agent.profile_url)) continue;
 
                     if (agents.length >= this.agentLimit) break;
 
-                    agents.push({
-                        agent_name: agent.name,
-                        profile_url: agent.url,
-                        rating_stars: agent.rating,
-                        review_count: agent.reviews
-                    });
+                    agents.push(agent);
+                    listedUrls.add(agent.profile_url);
                     newAgentsOnPage++;
 
-                    console.log(`  [${agents.length}] ${agent.name}`);
-                    console.log(`      ${agent.rating}★ • ${agent.reviews} reviews`);
-                    console.log(`      ${agent.url}\n`);
+                    this.logger.debug(`${agent.agent_name} (${agent.rating_stars}★ • ${agent.review_count} reviews)`, {
+                        index: agents.length,
+                        profile_url: agent.profile_url
+                    });
                 }
 
-                console.log(`Extracted ${extractedAgents.length} agents from page ${currentPage} (Total: ${agents.length})\n`);
+                this.logger.info(`Extracted ${extractedAgents.length} agents from page ${currentPage} (Total: ${agents.length})`, {
+                    page: currentPage,
+                    new_agents: newAgentsOnPage,
+                    total: agents.length
+                });
+                this.checkpoint.recordListPage(currentPage, agents);
+                this.emit('listPage', {
+                    page: currentPage,
+                    url: pageUrl,
+                    agents: agents.slice(agents.length - newAgentsOnPage),
+                    total: agents.length
+                });
+                this.logger.progress('Listing', agents.length, this.agentLimit);
 
                 // Check if we should continue to next page
                 if (extractedAgents.length === 0) {
-                    console.log('No more agents found. Stopping pagination.\n');
+                    this.logger.info('No more agents found. Stopping pagination.');
                     break;
                 }
 
                 // Break if no NEW agents were added (handling Zillow's infinite repeat of last page)
                 if (newAgentsOnPage === 0) {
-                    console.log('No new agents found on this page (likely reached end of results). Stopping pagination.\n');
+                    this.logger.info('No new agents found on this page (likely reached end of results). Stopping pagination.');
                     break;
                 }
 
                 if (agents.length >= this.agentLimit) {
-                    console.log(`Reached agent limit of ${this.agentLimit}. Stopping pagination.\n`);
+                    this.logger.info(`Reached agent limit of ${this.agentLimit}. Stopping pagination.`);
                     break;
                 }
 
@@ -204,263 +371,735 @@ export class ZillowScraper {
                 const pauseTime = Math.floor(Math.random() * 3000) + 2000; // Random delay 2-5s
                 await delay(pauseTime);
             }
+            // A page given up after repeated challenges (or a cancelled run) leaves the list incomplete for a resume
+            if (challengedAttempts > this.options.retries) {
+                failure = new ScrapeError('bot_challenge', `List page ${currentPage} stayed challenged`);
+                this.reportError({ source: 'list', url: this.listUrl, agent: null, error: failure });
+            }
+            paginationFinished = failure === null && !this.aborted;
 
             if (agents.length > 0) {
-                console.log(`Extracted total of ${agents.length} agents from ${currentPage} page(s)\n`);
+                this.logger.info(`Extracted total of ${agents.length} agents from ${currentPage} page(s)`, { pages: currentPage, total: agents.length });
             } else {
-                console.log(`WARNING: No agents extracted. Page may be blocked or structure changed.\n`);
+                this.logger.warn('No agents extracted. Page may be blocked or structure changed.');
             }
 
         } catch (err) {
-            console.error('ERROR: Error during list page scraping:', err);
+            failure = classifyError(err);
+            if (err instanceof ChallengeAbortError) throw err;
+            this.logger.error(`Error during list page scraping: ${failure.message}`, { page: currentPage, error_kind: failure.kind });
+            this.reportError({ source: 'list', url: this.listUrl, agent: null, error: failure });
         } finally {
             await page.close();
-            await context.close();
+            await this.sessions.release(session, failure);
         }
 
-        return agents.slice(0, this.agentLimit);
+        const listItems = agents.slice(0, this.agentLimit);
+        if (paginationFinished) {
+            this.checkpoint.markListComplete(listItems);
+        }
+        return listItems;
     }
 
     /**
-     * Scrape detail page for an individual agent - JSON extraction approach
+     * Scrape detail page for an individual agent - JSON extraction approach.
+     * Related records (reviews, transactions) are collected from the same page visit when enabled.
      */
-    private async scrapeDetailPage(url: string): Promise<AgentDetails> {
-        if (!this.browser) throw new Error('Browser not initialized');
+    private async scrapeDetailPage(agent: AgentListItem, log: Logger): Promise<ProfileScrape> {
+        const url = agent.profile_url;
+        if (!this.sessions) throw new Error('Browser not initialized');
 
-        const context = await this.browser.newContext({
-            userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-        });
-        const page = await context.newPage();
-
-        const details: AgentDetails = {
-            badge_type: null,
-            sales_last_12_months: null,
-            total_sales: null,
-            average_price: null,
-            price_range: null,
-            team_members_count: null
-        };
+        const session = await this.sessions.acquire();
+        const page = await session.context.newPage();
+        let failure: ScrapeError | null = null;
 
         try {
-            await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 60000 });
+            await this.challengeHandler.waitIfPaused();
+            this.counters.detail_pages_visited++;
+            const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 60000 });
+            const status = response?.status() ?? null;
+            if (status !== null && status >= 400) {
+                throw new ScrapeError('http_error', `HTTP ${status} for ${url}`, status);
+            }
 
-            // Wait for __NEXT_DATA__ to be present instead of hard wait
             // Wait for __NEXT_DATA__ to be present instead of hard wait
             try {
                 await page.waitForSelector('#__NEXT_DATA__', { state: 'attached', timeout: 15000 });
             } catch (e) {
-                console.log('    Wait for JSON timed out. Checking for bot protection...');
-
-                // Check for common bot protection texts
-                const isBotProtection = await page.evaluate(() => {
-                    return document.body.innerText.includes('Press and Hold') ||
-                        document.body.innerText.includes('challenge') ||
-                        document.title.includes('Robot') ||
-                        document.title.includes('Captcha');
-                });
-
-                if (isBotProtection) {
-                    console.log('\n    !!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!');
-                    console.log('    BOT PROTECTION DETECTED ON DETAIL PAGE!');
-                    console.log('    Please switch to the browser window and solve the CAPTCHA manually.');
-                    console.log('    The scraper is paused and waiting for you to solve it...');
-                    console.log('    !!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!!\n');
+                log.debug('Wait for JSON timed out. Checking for bot protection...');
 
-                    // Wait indefinitely for the user to solve it and the data to appear
-                    try {
-                        await page.waitForSelector('#__NEXT_DATA__', { state: 'attached', timeout: 300000 }); // Wait 5 mins
-                        console.log('    Captcha solved! Resuming...');
-                        await delay(2000); // Give it a moment to settle
-                    } catch (timeoutErr) {
-                        console.log('    Timed out waiting for manual solve. Skipping page...');
-                    }
-                } else {
-                    console.log('    No obvious bot protection found, attempting extraction anyway...');
+                const outcome = await this.challengeHandler.handle(page, 'detail', url);
+                if (outcome === 'solved') {
+                    await this.sessions.shareCookies(session.context);
+                }
+                if (outcome === 'skipped') {
+                    throw new ScrapeError('bot_challenge', `Bot challenge not cleared (${this.options.challengeStrategy} strategy)`, status);
+                }
+                if (outcome === null) {
+                    log.debug('No obvious bot protection found, attempting extraction anyway...');
                 }
             }
 
             // Extract from __NEXT_DATA__ JSON
-            const extracted = await page.evaluate(() => {
+            const nextData = await readNextDataScript(page);
+            if (!nextData) {
+                throw new ScrapeError('missing_json', 'No __NEXT_DATA__ found on profile page', status);
+            }
+
+            this.checkSchema(PROFILE_PAGE_SCHEMA, nextData, url, log);
+            const details = parseProfileNextData(nextData, this.options.fieldGroups);
+            const related: RelatedRecords = { reviews: [], transactions: [], team_members: [] };
+
+            // Team members are embedded in the profile payload, so they cost no extra requests
+            if (this.options.teamMembers || this.options.expandTeams) {
+                related.team_members = parseProfileTeamMembers(nextData, agent);
+            }
+
+            // Related records are best effort: a failure here never fails the agent
+            if (this.options.reviews) {
                 try {
-                    // Find __NEXT_DATA__ script tag
-                    const scriptTag = document.querySelector('#__NEXT_DATA__');
-                    if (!scriptTag || !scriptTag.textContent) {
-                        return null;
-                    }
+                    related.reviews = await this.collectReviews(page, agent, nextData);
+                } catch (err) {
+                    log.warn(`Could not collect reviews for ${agent.agent_name}: ${classifyError(err).message}`);
+                }
+            }
+            if (this.options.transactions) {
+                try {
+                    related.transactions = await this.collectTransactions(page, agent, nextData);
+                } catch (err) {
+                    log.warn(`Could not collect transactions for ${agent.agent_name}: ${classifyError(err).message}`);
+                }
+            }
 
-                    const data = JSON.parse(scriptTag.textContent);
-                    const pageProps = data?.props?.pageProps;
+            return { details, related };
 
-                    if (!pageProps) {
-                        return null;
-                    }
+        } catch (err) {
+            failure = classifyError(err);
+            throw failure;
+        } finally {
+            await page.close();
+            await this.sessions.release(session, failure);
+        }
+    }
 
-                    const result = {
-                        badge: null as string | null,
-                        salesLast12Months: null as number | null,
-                        totalSales: null as number | null,
-                        averagePrice: null as string | null,
-                        priceRange: null as string | null,
-                        teamMembers: null as number | null
-                    };
-
-                    // Extract sales stats
-                    const salesStats = pageProps.agentSalesStats;
-                    if (salesStats) {
-                        result.salesLast12Months = salesStats.countLastYear || null;
-                        result.totalSales = salesStats.countAllTime || null;
-
-                        // Format average price
-                        if (salesStats.averageValueThreeYear) {
-                            const avgPrice = salesStats.averageValueThreeYear;
-                            if (avgPrice >= 1000000) {
-                                result.averagePrice = `$${(avgPrice / 1000000).toFixed(1)}M`;
-                            } else if (avgPrice >= 1000) {
-                                result.averagePrice = `$${(avgPrice / 1000).toFixed(0)}K`;
-                            } else {
-                                result.averagePrice = `$${avgPrice}`;
-                            }
-                        }
+    /**
+     * Collect a paginated list from a profile page: start from the items embedded in
+     * the payload, then click the "more" button and parse matching JSON responses
+     * until the cap is reached or no new items arrive.
+     */
+    private async collectPaginated<T>(page: Page, source: {
+        initial: T[];
+        responsePattern: RegExp;
+        parse: (payload: unknown) => T[];
+        keyOf: (item: T) => string;
+        moreButton: string;
+        limit: number;
+    }): Promise<T[]> {
+        const items = new Map<string, T>();
+        const add = (batch: T[]) => {
+            for (const item of batch) {
+                const key = source.keyOf(item);
+                if (!items.has(key)) items.set(key, item);
+            }
+        };
 
-                        // Format price range
-                        const minPrice = salesStats.priceRangeThreeYearMin;
-                        const maxPrice = salesStats.priceRangeThreeYearMax;
-                        if (minPrice && maxPrice) {
-                            const formatPrice = (price: number) => {
-                                if (price >= 1000000) {
-                                    return `$${(price / 1000000).toFixed(1)}M`;
-                                } else if (price >= 1000) {
-                                    return `$${(price / 1000).toFixed(0)}K`;
-                                } else {
-                                    return `$${price}`;
-                                }
-                            };
-                            result.priceRange = `${formatPrice(minPrice)} - ${formatPrice(maxPrice)}`;
-                        }
-                    }
+        add(source.initial);
 
-                    // Extract badge from graphQLData
-                    const graphQLData = pageProps.graphQLData;
-                    if (graphQLData) {
-                        if (graphQLData.isPremium === true) {
-                            result.badge = 'Zillow Pro';
-                        } else if (graphQLData.premierAgentSection) {
-                            result.badge = 'Premier Agent';
-                        }
-                    }
+        const onResponse = async (response: Response) => {
+            if (!source.responsePattern.test(response.url())) return;
+            if (!(response.headers()['content-type'] ?? '').includes('json')) return;
+            try {
+                add(source.parse(await response.json()));
+            } catch {
+                // Not a payload we understand
+            }
+        };
+        page.on('response', onResponse);
 
-                    // Extract team members count
-                    const teamInfo = pageProps.teamDisplayInformation;
-                    if (teamInfo?.teamLeadInfo?.children) {
-                        result.teamMembers = teamInfo.teamLeadInfo.children.length;
-                    }
+        try {
+            while (items.size < source.limit) {
+                const loadMore = page.locator(source.moreButton).first();
+                if (!(await loadMore.isVisible().catch(() => false))) break;
 
-                    return result;
+                const before = items.size;
+                await loadMore.click();
+                await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {});
+                // Same pacing as detail requests between "load more" clicks
+                await delay(this.options.minDelayMs + Math.random() * (this.options.maxDelayMs - this.options.minDelayMs));
 
-                } catch (err) {
-                    console.error('Error parsing profile JSON:', err);
-                    return null;
-                }
-            });
-
-            if (extracted) {
-                details.badge_type = extracted.badge;
-                details.sales_last_12_months = extracted.salesLast12Months;
-                details.total_sales = extracted.totalSales;
-                details.average_price = extracted.averagePrice;
-                details.price_range = extracted.priceRange;
-                details.team_members_count = extracted.teamMembers;
+                if (items.size === before) break;
             }
+        } finally {
+            page.off('response', onResponse);
+        }
+
+        return [...items.values()].slice(0, source.limit);
+    }
+
+    /**
+     * Collect an agent's reviews, including "load more" pages, up to the per-agent cap
+     */
+    private collectReviews(page: Page, agent: AgentListItem, nextData: string): Promise<AgentReview[]> {
+        return this.collectPaginated(page, {
+            initial: parseProfileReviews(nextData, agent),
+            responsePattern: REVIEWS_ENDPOINT,
+            parse: payload => parseReviewsPayload(payload, agent),
+            keyOf: review => review.review_id ?? `${review.reviewer}|${review.date}|${review.text}`,
+            moreButton: 'button:has-text("more reviews"), button:has-text("Load more")',
+            limit: this.options.maxReviewsPerAgent
+        });
+    }
+
+    /**
+     * Collect an agent's past sales and active listings, each up to the per-agent cap
+     */
+    private async collectTransactions(page: Page, agent: AgentListItem, nextData: string): Promise<AgentTransaction[]> {
+        const embedded = parseProfileTransactions(nextData, agent);
+        const keyOf = (transaction: AgentTransaction) =>
+            `${transaction.kind}|${transaction.zpid ?? transaction.address}|${transaction.date}`;
+
+        const pastSales = await this.collectPaginated(page, {
+            initial: embedded.filter(t => t.kind === 'past_sale'),
+            responsePattern: PAST_SALES_ENDPOINT,
+            parse: payload => parseTransactionsPayload(payload, agent).filter(t => t.kind === 'past_sale'),
+            keyOf,
+            moreButton: 'button:has-text("more sales"), button:has-text("See all sales")',
+            limit: this.options.maxTransactionsPerAgent
+        });
+
+        const listings = embedded
+            .filter(t => t.kind === 'active_listing')
+            .slice(0, this.options.maxTransactionsPerAgent);
 
+        return [...pastSales, ...listings];
+    }
+
+    /**
+     * Scrape an agent's detail page, retrying retryable failures with backoff.
+     * Failures are recorded on the returned record rather than thrown.
+     */
+    private async scrapeAgent(agent: AgentListItem, log: Logger): Promise<AgentData> {
+        let attempt = 0;
+        try {
+            const { details, related } = await retryWithBackoff(
+                () => this.scrapeDetailPage(agent, log.child({ attempt: ++attempt })),
+                {
+                    retries: this.options.retries,
+                    baseDelayMs: this.options.retryDelayMs,
+                    // With the requeue strategy, challenged agents wait for the end of the run instead
+                    shouldRetry: err => {
+                        const error = classifyError(err);
+                        return error.retryable && !(error.kind === 'bot_challenge' && this.challengeHandler.defersRetries);
+                    },
+                    onRetry: (err, attempt, waitMs) => {
+                        const error = classifyError(err);
+                        log.warn(`RETRY ${attempt}/${this.options.retries} after ${error.kind} (${error.message}) in ${(waitMs / 1000).toFixed(1)}s`, {
+                            attempt,
+                            error_kind: error.kind
+                        });
+                    }
+                }
+            );
+            this.relatedRecords.set(agent.profile_url, related);
+            return { ...agent, ...details, scrape_status: 'ok', error_type: null, error: null };
         } catch (err) {
-            console.error(`  WARNING: Error scraping detail page: ${err}`);
-        } finally {
-            await page.close();
-            await context.close();
+            if (err instanceof ChallengeAbortError) throw err;
+            const error = classifyError(err);
+            log.error(`Failed ${agent.agent_name}: ${error.kind} - ${error.message}`, { attempt, error_kind: error.kind });
+            return {
+                ...agent,
+                ...emptyAgentDetails(),
+                scrape_status: 'failed',
+                error_type: error.kind,
+                error: error.message
+            };
+        }
+    }
+
+
+    /**
+     * Metadata about the most recent run, or null before the first run finishes
+     */
+    get metadata(): ScraperMetadata | null {
+        return this.lastRunReport?.metadata ?? null;
+    }
+
+    /**
+     * Bot challenge handling; listen for `challenge` events or add custom detectors here
+     */
+    get challenges(): ChallengeHandler {
+        return this.challengeHandler;
+    }
+
+    /**
+     * Agents the most recent run listed, including queued team members
+     */
+    get listed(): AgentListItem[] {
+        return this.listedAgents;
+    }
+
+    /**
+     * Reviews collected in the most recent run (empty unless the reviews option is on)
+     */
+    get reviews(): AgentReview[] {
+        return [...this.relatedRecords.values()].flatMap(related => related.reviews);
+    }
+
+    /**
+     * Past sales and active listings collected in the most recent run
+     * (empty unless the transactions option is on)
+     */
+    get transactions(): AgentTransaction[] {
+        return [...this.relatedRecords.values()].flatMap(related => related.transactions);
+    }
+
+    /**
+     * Team members listed on team leads' profiles in the most recent run
+     * (empty unless the team members or expand teams option is on)
+     */
+    get teamMembers(): AgentTeamMember[] {
+        return [...this.relatedRecords.values()].flatMap(related => related.team_members);
+    }
+
+    /**
+     * Records of the most recent run flagged as likely duplicates of earlier ones
+     */
+    get merges(): AgentMerge[] {
+        return this.duplicates.merges;
+    }
+
+    /**
+     * Quality report for the most recent run, or null before the first run finishes
+     */
+    get report(): RunReport | null {
+        return this.lastRunReport;
+    }
+
+    /**
+     * Validate a payload against its schema, logging any drift
+     */
+    private checkSchema(schema: PayloadSchema, nextData: string, url: string, log: Logger = this.logger): void {
+        const violations = this.drift.check(schema, nextData, url);
+        if (violations.length > 0) {
+            const paths = violations.map(v => `${v.path} (expected ${v.expected}, found ${v.found})`).join('; ');
+            log.warn(`Schema drift on ${url}: ${paths}`, { schema: schema.name, url });
         }
+    }
 
-        return details;
+    /**
+     * Drift samples are saved next to the primary output, e.g. output.drift/
+     */
+    private newDriftTracker(): SchemaDriftTracker {
+        return new SchemaDriftTracker(siblingPath(this.options.outputs[0].path, 'drift', ''));
+    }
+
+    private static emptyCounters(): RunCounters {
+        return { list_pages_visited: 0, detail_pages_visited: 0, captcha_encounters: 0, challenge_outcomes: {} };
     }
 
+    private buildReport(startTime: number, listedCount: number, results: AgentData[]): RunReport {
+        return buildRunReport({
+            options: this.options,
+            listUrl: this.options.agentsFile ? null : this.listUrl,
+            startTime,
+            endTime: Date.now(),
+            listedCount,
+            results,
+            counters: this.counters,
+            drift: this.drift.report(),
+            sessions: this.sessions?.stats() ?? [],
+            refresh: this.refreshStats
+        });
+    }
+
+    /**
+     * Run the scrape and resolve with every agent record in list order.
+     * Rejects with RunAbortedError when `signal` is aborted; `done` is emitted either way.
+     */
+    async run(runOptions: RunOptions = {}): Promise<AgentData[]> {
+        this.signal = runOptions.signal ?? null;
+        try {
+            const results = await this.execute();
+            this.emit('done', { results, report: this.lastRunReport, aborted: false });
+            return results;
+        } catch (err) {
+            if (err instanceof RunAbortedError) {
+                this.emit('done', { results: err.results, report: this.lastRunReport, aborted: true });
+            }
+            throw err;
+        } finally {
+            this.signal = null;
+        }
+    }
 
     /**
      * Main scraper execution
      */
-    async run(): Promise<AgentData[]> {
+    private async execute(): Promise<AgentData[]> {
         const startTime = Date.now();
-        const results: AgentData[] = [];
+        let results: AgentData[] = [];
+        this.counters = ZillowScraper.emptyCounters();
+        this.drift = this.newDriftTracker();
+        this.lastRunReport = null;
+        this.relatedRecords.clear();
+        this.listedAgents = [];
+        this.cache = this.options.cachePath ? new ProfileCache(this.options.cachePath, this.logger) : null;
+        this.refreshStats = this.options.refresh ? emptyRefreshStats() : null;
+        this.duplicates = new DuplicateDetector();
+        let listItems: AgentListItem[] = [];
+        const completed = new Map<string, AgentData>();
+        const sinks: OutputSink[] = this.options.outputs.map(createSink);
+
+        // Keep list order, merging resumed and freshly scraped records
+        const orderedResults = (): AgentData[] => listItems
+            .map(agent => completed.get(agent.profile_url))
+            .filter((agent): agent is AgentData => agent !== undefined);
+
+        // Between steps: a cancelled run keeps what it finished and reports on it
+        const stopIfAborted = (): void => {
+            if (!this.aborted) return;
+            results = orderedResults();
+            this.listedAgents = listItems;
+            this.lastRunReport = this.buildReport(startTime, listItems.length, results);
+            this.logger.warn(`Run cancelled after ${results.length} agents.`);
+            throw new RunAbortedError(results);
+        };
 
         try {
+            const resumed = this.options.resume ? this.checkpoint.load() : null;
+            if (resumed) {
+                this.logger.info(
+                    `Resuming from checkpoint ${this.checkpoint.path} | List pages done: ${resumed.current_page}${resumed.list_complete ? ' (complete)' : ''} | `
+                    + `Agents listed: ${resumed.list_items.length} | Details done: ${Object.keys(resumed.completed).length}`,
+                    { checkpoint: this.checkpoint.path }
+                );
+            } else {
+                if (this.options.resume) {
+                    this.logger.info('No checkpoint found for these parameters. Starting a fresh run.');
+                }
+                this.checkpoint.reset();
+            }
+
+            // Streaming sinks start empty, so replay records finished before a resume
+            for (const sink of sinks) {
+                await sink.open();
+            }
+            for (const [url, related] of Object.entries(resumed?.related ?? {})) {
+                this.relatedRecords.set(url, related);
+            }
+            for (const agent of Object.values(resumed?.completed ?? {})) {
+                this.duplicates.check(agent);
+                completed.set(agent.profile_url, agent);
+                await this.writeToSinks(sinks, agent);
+            }
+
             await this.launchBrowser();
 
-            // Step 1: Scrape list page
-            const listItems = await this.scrapeListPage();
+            // Step 1: Scrape list page (skipped if the checkpoint already has the full list
+            // or the agents come from a file)
+            if (this.options.agentsFile) {
+                const fileAgents = readAgentListFile(this.options.agentsFile).map(normalizeListItem);
+                listItems = [...new Map(fileAgents.map(agent => [agent.profile_url, agent])).values()].slice(0, this.agentLimit);
+                this.logger.info(`Loaded ${listItems.length} agents from ${this.options.agentsFile}`);
+                this.checkpoint.markListComplete(listItems);
+            } else if (resumed?.list_complete) {
+                listItems = resumed.list_items;
+            } else {
+                listItems = await this.scrapeListPage(resumed);
+            }
+
+            this.agentsTotal = listItems.length;
+            stopIfAborted();
 
             if (listItems.length === 0) {
-                console.log('WARNING: No agents found on list page');
-                console.log('This might be due to Zillow blocking or page structure changes');
+                this.logger.warn('No agents found on list page. This might be due to Zillow blocking or page structure changes');
+                this.lastRunReport = this.buildReport(startTime, 0, results);
                 return results;
             }
 
-            // Step 2: Scrape detail pages in parallel (with concurrency limit)
-            console.log('Scraping detail pages in parallel...\n');
+            // Step 2: Scrape detail pages in parallel (with concurrency limit),
+            // skipping agents already completed in the checkpoint
+            if (completed.size > 0) {
+                this.logger.info(`Skipping ${completed.size} agents already scraped.`);
+            }
+            const pending = await this.reuseCachedProfiles(
+                this.claimAgents(listItems.filter(agent => !completed.has(agent.profile_url))),
+                completed,
+                sinks
+            );
+
+            await this.scrapeDetails(pending, completed, sinks);
+            stopIfAborted();
+
+            // Step 3: Scrape team members found on team leads' profiles that were not in the list.
+            // Members are derived from the related records, so a resume re-queues them too.
+            if (this.options.expandTeams) {
+                const members = this.queueTeamMembers(listItems);
+                listItems = [...listItems, ...members];
+                this.agentsTotal = listItems.length;
+
+                const pendingMembers = await this.reuseCachedProfiles(
+                    this.claimAgents(members.filter(agent => !completed.has(agent.profile_url))),
+                    completed,
+                    sinks
+                );
+                if (pendingMembers.length > 0) {
+                    this.logger.info(`Scraping ${pendingMembers.length} team member profiles not found in the list...`);
+                    await this.scrapeDetails(pendingMembers, completed, sinks);
+                }
+                stopIfAborted();
+            }
 
-            const CONCURRENCY_LIMIT = 5; // Process 5 agents at a time (Balanced)
-            const batches: AgentListItem[][] = [];
+            this.listedAgents = listItems;
+            results = orderedResults();
+            this.lastRunReport = this.buildReport(startTime, listItems.length, results);
 
-            // Split agents into batches
-            for (let i = 0; i < listItems.length; i += CONCURRENCY_LIMIT) {
-                batches.push(listItems.slice(i, i + CONCURRENCY_LIMIT));
+        } finally {
+            this.logger.endProgress();
+            await this.closeBrowser();
+            this.cache?.save();
+            // Also runs after a crash, so finished records are not lost
+            for (const sink of sinks) {
+                await sink.close(orderedResults());
             }
+        }
 
-            let processedCount = 0;
+        return results;
+    }
 
-            // Process each batch in parallel
-            for (const batch of batches) {
-                const batchPromises = batch.map(async (agent, batchIndex) => {
-                    const globalIndex = processedCount + batchIndex;
-                    console.log(`[${globalIndex + 1}/${listItems.length}] Starting: ${agent.agent_name}`);
+    /**
+     * Scrape detail pages in parallel (with concurrency limit), recording each
+     * finished agent in `completed`, the checkpoint and the output sinks
+     */
+    private async scrapeDetails(
+        pending: AgentListItem[],
+        completed: Map<string, AgentData>,
+        sinks: OutputSink[],
+        requeued = false
+    ): Promise<void> {
+        this.logger.info(`Scraping detail pages with up to ${this.options.concurrency} workers...`);
+        const deferred: AgentListItem[] = [];
+
+        // Work queue: each worker picks up the next agent as soon as it is free
+        const pool = new WorkerPool<AgentListItem, AgentData>({
+            concurrency: this.options.concurrency,
+            minConcurrency: 1,
+            requestsPerMinute: this.options.requestsPerMinute,
+            minDelayMs: this.options.minDelayMs,
+            maxDelayMs: this.options.maxDelayMs,
+            adaptive: this.options.adaptiveConcurrency,
+            rampUpAfter: 10
+        }, this.logger);
+
+        // Cancelling stops handing out agents; those in flight finish and are recorded
+        const stopPool = () => pool.stop();
+        this.signal?.addEventListener('abort', stopPool, { once: true });
+
+        await pool.run(
+            pending,
+            async (agent, index) => {
+                const log = this.logger.child({ index: index + 1, total: pending.length, profile_url: agent.profile_url });
+                log.debug(`Starting: ${agent.agent_name}`);
+
+                const agentStartTime = Date.now();
+                const result = await this.scrapeAgent(agent, log).catch(err => {
+                    // An aborting challenge strategy stops the whole pool
+                    if (err instanceof ChallengeAbortError) pool.stop();
+                    throw err;
+                });
+                const agentEndTime = Date.now();
+                const agentScrapeTime = (agentEndTime - agentStartTime) / 1000;
+                result.scrape_time_seconds = Number(agentScrapeTime.toFixed(2));
+                if (this.options.market) {
+                    result.market = this.options.market;
+                }
 
-                    const agentStartTime = Date.now();
-                    const details = await this.scrapeDetailPage(agent.profile_url);
-                    const agentEndTime = Date.now();
-                    const agentScrapeTime = (agentEndTime - agentStartTime) / 1000;
+                if (result.scrape_status === 'ok') {
+                    log.info(
+                        `DONE: ${agent.agent_name} | Badge: ${result.badge_type || 'None'} | Sales (12mo): ${result.sales_last_12_months ?? 'N/A'} | `
+                        + `Total: ${result.total_sales ?? 'N/A'} | Team: ${result.team_members_count ?? 'N/A'} | Time: ${agentScrapeTime.toFixed(2)}s`,
+                        { scrape_time_seconds: result.scrape_time_seconds }
+                    );
+                }
 
-                    const result: AgentData = {
-                        ...agent,
-                        ...details
-                    };
+                return result;
+            },
+            result => {
+                if (result.scrape_status === 'ok') return 'ok';
+                return result.error_type === 'bot_challenge' ? 'challenge' : 'error';
+            },
+            (result, agent) => {
+                // With the requeue strategy, challenged agents get one more pass once the rest are done
+                if (!requeued && this.challengeHandler.defersRetries && result.error_type === 'bot_challenge') {
+                    deferred.push(agent);
+                    return;
+                }
 
-                    console.log(`[${globalIndex + 1}/${listItems.length}] DONE: ${agent.agent_name}`);
-                    console.log(`  Badge: ${details.badge_type || 'None'} | Sales (12mo): ${details.sales_last_12_months ?? 'N/A'} | Total: ${details.total_sales ?? 'N/A'} | Team: ${details.team_members_count ?? 'N/A'} | Time: ${agentScrapeTime.toFixed(2)}s\n`);
+                completed.set(result.profile_url, result);
+                // Only successful records are checkpointed, so a resume retries failures
+                if (result.scrape_status === 'ok') {
+                    this.flagDuplicate(result);
+                    const related = this.relatedRecords.get(result.profile_url);
+                    this.checkpoint.recordAgent(result, related);
+                    this.cache?.record(result, related ?? { reviews: [], transactions: [], team_members: [] }, this.collectedKinds);
+                } else {
+                    this.reportError({
+                        source: 'detail',
+                        url: agent.profile_url,
+                        agent,
+                        error: new ScrapeError(result.error_type ?? 'unknown', result.error ?? 'Unknown error')
+                    });
+                }
+                this.emit('agent', { agent: result, completed: completed.size, total: this.agentsTotal });
+                this.logger.progress('Scraping', completed.size, this.agentsTotal);
+                return this.writeToSinks(sinks, result);
+            }
+        ).finally(() => this.signal?.removeEventListener('abort', stopPool));
 
-                    return result;
-                });
+        if (deferred.length > 0 && !this.aborted) {
+            this.logger.info(`Re-queuing ${deferred.length} agents that hit bot challenges...`);
+            await this.scrapeDetails(deferred, completed, sinks, true);
+        }
+    }
 
-                // Wait for batch to complete
-                const batchResults = await Promise.all(batchPromises);
-                results.push(...batchResults);
-                processedCount += batch.length;
+    /**
+     * Flag a record that is likely the same agent as an earlier one (see DuplicateDetector)
+     */
+    private flagDuplicate(agent: AgentData): void {
+        const merge = this.duplicates.check(agent);
+        if (merge) {
+            this.logger.info(
+                `Likely duplicate: ${merge.duplicate_agent_name} (${merge.duplicate_profile_url}) is ${merge.agent_name} (${merge.profile_url}) by ${merge.reason}`,
+                { profile_url: merge.duplicate_profile_url, duplicate_of: merge.profile_url, reason: merge.reason }
+            );
+        }
+    }
 
-                // Small delay between batches (not between individual requests)
-                if (processedCount < listItems.length) {
-                    console.log(`Batch complete (${processedCount}/${listItems.length}). Brief pause...\n`);
-                    await delay(1000);
-                }
+    /**
+     * Field groups and related record kinds this run extracts from a profile, so a
+     * cached profile missing any of them is not reused
+     */
+    private get collectedKinds(): string[] {
+        const kinds: string[] = [...this.options.fieldGroups];
+        if (this.options.reviews) kinds.push('reviews');
+        if (this.options.transactions) kinds.push('transactions');
+        if (this.options.teamMembers || this.options.expandTeams) kinds.push('team_members');
+        return kinds;
+    }
+
+    /**
+     * In refresh mode, record the agents whose cached profile is still fresh without
+     * visiting it, and return the agents that need scraping. Reused records are not
+     * checkpointed: a resume finds them in the cache again.
+     */
+    private async reuseCachedProfiles(
+        agents: AgentListItem[],
+        completed: Map<string, AgentData>,
+        sinks: OutputSink[]
+    ): Promise<AgentListItem[]> {
+        if (!this.cache || !this.refreshStats || agents.length === 0) return agents;
+
+        const maxAgeMs = this.options.cacheMaxAgeDays * 24 * 60 * 60 * 1000;
+        const counts = emptyRefreshStats();
+        const toScrape: AgentListItem[] = [];
+
+        for (const agent of agents) {
+            const reason = this.cache.refreshReason(agent, maxAgeMs, this.collectedKinds);
+            const cached = this.cache.get(agent.profile_url);
+            if (reason || !cached) {
+                counts[reason ?? 'new']++;
+                toScrape.push(agent);
+                continue;
             }
 
-            const endTime = Date.now();
-            const totalTime = (endTime - startTime) / 1000; // Convert to seconds
-            const avgTimePerAgent = results.length > 0 ? totalTime / results.length : 0;
+            // The list card is current; only the profile details come from the cache
+            const result: AgentData = { ...agent, ...cached.details, scrape_status: 'ok', error_type: null, error: null };
+            if (this.options.market) {
+                result.market = this.options.market;
+            }
+            this.relatedRecords.set(agent.profile_url, cached.related);
+            this.flagDuplicate(result);
+            completed.set(agent.profile_url, result);
+            counts.reused++;
+            this.emit('agent', { agent: result, completed: completed.size, total: this.agentsTotal });
+            await this.writeToSinks(sinks, result);
+        }
 
-            console.log(`\nScraping complete! Extracted ${results.length} agents.`);
-            console.log(`Total time: ${totalTime.toFixed(2)}s`);
-            console.log(`Average time per agent: ${avgTimePerAgent.toFixed(2)}s\n`);
+        for (const key of Object.keys(counts) as (keyof RefreshStats)[]) {
+            this.refreshStats[key] += counts[key];
+        }
+        this.logger.progress('Scraping', completed.size, this.agentsTotal);
+        this.logger.info(
+            `Refresh: reusing ${counts.reused} cached profiles; scraping ${toScrape.length} `
+            + `(${counts.new} new, ${counts.stale} stale, ${counts.changed} changed, ${counts.incomplete} incomplete)`,
+            { ...counts, cache: this.cache.path }
+        );
+        return toScrape;
+    }
 
-        } finally {
-            await this.closeBrowser();
+    /**
+     * Claim the agents a resumed batch search already finished, so searches that reach
+     * their detail pages first skip them. Called for every search before any starts.
+     */
+    claimCheckpointedAgents(): void {
+        if (!this.shared || !this.options.resume) return;
+
+        const resumed = this.checkpoint.load();
+        for (const url of Object.keys(resumed?.completed ?? {})) {
+            this.shared.claimedAgents.add(url);
         }
+    }
 
-        return results;
+    /**
+     * Keep only agents no other search of the batch has taken, and claim them.
+     * Runs synchronously, so searches running side by side never claim the same agent.
+     */
+    private claimAgents(agents: AgentListItem[]): AgentListItem[] {
+        if (!this.shared) return agents;
+
+        const { claimedAgents } = this.shared;
+        const unclaimed = agents.filter(agent => !claimedAgents.has(agent.profile_url));
+        if (unclaimed.length < agents.length) {
+            this.logger.info(`Skipping ${agents.length - unclaimed.length} agents already taken by another search.`);
+        }
+        for (const agent of unclaimed) {
+            claimedAgents.add(agent.profile_url);
+        }
+        return unclaimed;
+    }
+
+    /**
+     * Team members of the listed team leads that have a profile and are not
+     * already listed. Members are not expanded further.
+     */
+    private queueTeamMembers(listItems: AgentListItem[]): AgentListItem[] {
+        const seen = new Set(listItems.map(agent => agent.profile_url));
+        const queued: AgentListItem[] = [];
+
+        for (const lead of listItems) {
+            for (const member of this.relatedRecords.get(lead.profile_url)?.team_members ?? []) {
+                if (!member.profile_url) continue;
+                const url = canonicalProfileUrl(member.profile_url);
+                if (seen.has(url)) continue;
+                seen.add(url);
+                queued.push({
+                    agent_name: member.agent_name,
+                    profile_url: url,
+                    rating_stars: 0,
+                    review_count: 0,
+                    team_lead_profile_url: lead.profile_url
+                });
+            }
+        }
+        return queued;
+    }
+
+    /**
+     * Send a finished record to every output sink
+     */
+    private async writeToSinks(sinks: OutputSink[], agent: AgentData): Promise<void> {
+        for (const sink of sinks) {
+            await sink.write(agent);
+        }
     }
 }
@@ -0,0 +1,186 @@
+/**
+ * Typed agent directory searches: building, validating and parsing directory URLs
+ */
+
+export type AgentSortOrder = 'relevance' | 'rating' | 'reviews' | 'recent_sales' | 'total_sales';
+
+/**
+ * `team` lists only team profiles, `individual` only solo agents
+ */
+export type AgentTypeFilter = 'any' | 'team' | 'individual';
+
+/**
+ * Everything that selects which agents the directory lists. Pagination is not part
+ * of the query; `buildSearchUrl` adds the page number.
+ */
+export interface AgentSearchQuery {
+    location: string;           // Zillow location slug (e.g. "seattle-wa") or 5-digit ZIP
+    topAgents: boolean;         // Only Zillow top agents
+    specialties: string[];      // Agents with any of these specialties (e.g. "Buyer's Agent")
+    languages: string[];        // Agents speaking any of these languages
+    minPrice: number | null;    // Price range of the agent's sales, in dollars
+    maxPrice: number | null;
+    sort: AgentSortOrder;
+    agentType: AgentTypeFilter;
+}
+
+export const AGENT_SORT_ORDERS: AgentSortOrder[] = ['relevance', 'rating', 'reviews', 'recent_sales', 'total_sales'];
+export const AGENT_TYPE_FILTERS: AgentTypeFilter[] = ['any', 'team', 'individual'];
+
+const DIRECTORY_ORIGIN = 'https://www.zillow.com';
+const DIRECTORY_PATH = /^\/professionals\/real-estate-agent-reviews\/([^/]+)\/?$/;
+const LOCATION_PATTERN = /^(?:[a-z0-9]+(?:-[a-z0-9]+)*|\d{5})$/;
+
+/**
+ * Query parameters of the directory. The order here is the order in built URLs, so
+ * the URL of a query (and the checkpoint keyed on it) does not change between runs.
+ */
+const PARAMS = {
+    topAgents: 'isTopAgent',
+    specialty: 'specialty',
+    language: 'language',
+    minPrice: 'priceMin',
+    maxPrice: 'priceMax',
+    sort: 'sort',
+    agentType: 'agentType',
+    page: 'page'
+} as const;
+
+/**
+ * Problems with a query, one message per problem (empty when valid)
+ */
+export function validateSearchQuery(query: AgentSearchQuery): string[] {
+    const issues: string[] = [];
+
+    if (!LOCATION_PATTERN.test(query.location)) {
+        issues.push(`location "${query.location}" must be a lowercase Zillow slug like "portland-or" or a 5-digit ZIP`);
+    }
+    for (const [key, values] of [['specialties', query.specialties], ['languages', query.languages]] as const) {
+        if (!Array.isArray(values) || values.some(value => typeof value !== 'string' || value.trim() === '')) {
+            issues.push(`${key} must be a list of non-empty names`);
+        }
+    }
+    for (const key of ['minPrice', 'maxPrice'] as const) {
+        const price = query[key];
+        if (price !== null && (!Number.isInteger(price) || price < 0)) {
+            issues.push(`${key} must be a non-negative whole number of dollars (got ${price})`);
+        }
+    }
+    if (query.minPrice !== null && query.maxPrice !== null && query.minPrice > query.maxPrice) {
+        issues.push(`minPrice (${query.minPrice}) is above maxPrice (${query.maxPrice})`);
+    }
+    if (!AGENT_SORT_ORDERS.includes(query.sort)) {
+        issues.push(`sort must be one of ${AGENT_SORT_ORDERS.join(', ')} (got "${query.sort}")`);
+    }
+    if (!AGENT_TYPE_FILTERS.includes(query.agentType)) {
+        issues.push(`agentType must be one of ${AGENT_TYPE_FILTERS.join(', ')} (got "${query.agentType}")`);
+    }
+
+    return issues;
+}
+
+/**
+ * Directory URL listing `page` (1-based) of the query's results. Throws on an invalid query.
+ */
+export function buildSearchUrl(query: AgentSearchQuery, page = 1): string {
+    const issues = validateSearchQuery(query);
+    if (!Number.isInteger(page) || page < 1) {
+        issues.push(`page must be a positive integer (got ${page})`);
+    }
+    if (issues.length > 0) {
+        throw new Error(`Invalid agent search: ${issues.join('; ')}`);
+    }
+
+    const url = new URL(`/professionals/real-estate-agent-reviews/${query.location}/`, DIRECTORY_ORIGIN);
+    if (query.topAgents) {
+        url.searchParams.set(PARAMS.topAgents, 'true');
+    }
+    for (const specialty of query.specialties) {
+        url.searchParams.append(PARAMS.specialty, specialty);
+    }
+    for (const language of query.languages) {
+        url.searchParams.append(PARAMS.language, language);
+    }
+    if (query.minPrice !== null) {
+        url.searchParams.set(PARAMS.minPrice, String(query.minPrice));
+    }
+    if (query.maxPrice !== null) {
+        url.searchParams.set(PARAMS.maxPrice, String(query.maxPrice));
+    }
+    if (query.sort !== 'relevance') {
+        url.searchParams.set(PARAMS.sort, query.sort);
+    }
+    if (query.agentType !== 'any') {
+        url.searchParams.set(PARAMS.agentType, query.agentType);
+    }
+    if (page > 1) {
+        url.searchParams.set(PARAMS.page, String(page));
+    }
+    return url.toString();
+}
+
+/**
+ * Parse a directory URL copied from the browser back into a query, so
+ * `buildSearchUrl(parseSearchUrl(url))` gives the same listing. The page number
+ * is dropped; unknown parameters are rejected rather than silently ignored.
+ */
+export function parseSearchUrl(input: string): AgentSearchQuery {
+    let url: URL;
+    try {
+        url = new URL(input.trim());
+    } catch {
+        throw new Error(`"${input}" is not a URL`);
+    }
+
+    const path = DIRECTORY_PATH.exec(url.pathname);
+    if (!/^(?:www\.)?zillow\.com$/.test(url.hostname) || !path) {
+        throw new Error(`"${input}" is not a Zillow agent directory URL (expected ${DIRECTORY_ORIGIN}/professionals/real-estate-agent-reviews/<location>/)`);
+    }
+
+    const known: string[] = Object.values(PARAMS);
+    const unknown = [...new Set(url.searchParams.keys())].filter(key => !known.includes(key));
+    if (unknown.length > 0) {
+        throw new Error(`Unsupported parameter${unknown.length === 1 ? '' : 's'} ${unknown.map(key => `"${key}"`).join(', ')} in ${input}`);
+    }
+
+    const query: AgentSearchQuery = {
+        location: decodeURIComponent(path[1]).toLowerCase(),
+        topAgents: url.searchParams.get(PARAMS.topAgents) === 'true',
+        specialties: url.searchParams.getAll(PARAMS.specialty),
+        languages: url.searchParams.getAll(PARAMS.language),
+        minPrice: parsePrice(url.searchParams.get(PARAMS.minPrice)),
+        maxPrice: parsePrice(url.searchParams.get(PARAMS.maxPrice)),
+        sort: (url.searchParams.get(PARAMS.sort) ?? 'relevance') as AgentSortOrder,
+        agentType: (url.searchParams.get(PARAMS.agentType) ?? 'any') as AgentTypeFilter
+    };
+
+    const issues = validateSearchQuery(query);
+    if (issues.length > 0) {
+        throw new Error(`Invalid agent directory URL ${input}: ${issues.join('; ')}`);
+    }
+    return query;
+}
+
+/**
+ * The search fields of a set of options (such as ScraperOptions)
+ */
+export function pickSearchQuery(options: AgentSearchQuery): AgentSearchQuery {
+    return {
+        location: options.location,
+        topAgents: options.topAgents,
+        specialties: options.specialties,
+        languages: options.languages,
+        minPrice: options.minPrice,
+        maxPrice: options.maxPrice,
+        sort: options.sort,
+        agentType: options.agentType
+    };
+}
+
+/**
+ * Price parameter as a number; NaN for anything but digits, so validation reports it
+ */
+function parsePrice(value: string | null): number | null {
+    if (value === null) return null;
+    return /^\d+$/.test(value) ? Number(value) : NaN;
+}
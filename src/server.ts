@@ -0,0 +1,176 @@
+import { createReadStream } from 'fs';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { pipeline } from 'stream/promises';
+import { OutputFormat } from './types';
+import { OptionsValidationError } from './config';
+import { JOB_DATASETS, JOB_RESULT_FORMATS, JobDataset, JobQueue, parseJobRequest } from './jobs';
+import { Logger, defaultLogger } from './logger';
+
+/**
+ * Settings for the `serve` command
+ */
+export interface ServerOptions {
+    host: string;
+    port: number;
+    jobsDir: string;
+    maxRunning: number;     // Scrapes run at the same time
+    headless: boolean;
+}
+
+export const MAX_RUNNING_JOBS = 5;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const CONTENT_TYPES: Partial<Record<OutputFormat, string>> = {
+    json: 'application/json; charset=utf-8',
+    csv: 'text/csv; charset=utf-8'
+};
+
+/**
+ * Raised for requests the API answers with a 4xx status
+ */
+class HttpError extends Error {
+    constructor(public readonly status: number, message: string, public readonly issues: string[] = []) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body, null, 2));
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            throw new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+        }
+        chunks.push(chunk as Buffer);
+    }
+
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch (err) {
+        throw new HttpError(400, `Request body is not valid JSON: ${(err as Error).message}`);
+    }
+}
+
+/**
+ * HTTP API over a job queue:
+ *
+ * - `POST /jobs` with scraper options as JSON queues a job (202)
+ * - `GET /jobs` lists jobs; `GET /jobs/:id` shows one with its progress
+ * - `GET /jobs/:id/results?format=json|csv&dataset=agents|reviews|...` downloads a finished
+ *   job's results; datasets other than agents are JSON only
+ * - `POST /jobs/:id/cancel` cancels a queued or running job
+ */
+export function createJobServer(queue: JobQueue, logger: Logger = defaultLogger): Server {
+    const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const [collection, id, action, ...extra] = url.pathname.split('/').filter(Boolean);
+        if (collection !== 'jobs' || extra.length > 0) {
+            throw new HttpError(404, `No route for ${url.pathname}`);
+        }
+
+        const allow = (...methods: string[]) => {
+            if (!methods.includes(req.method ?? '')) {
+                res.setHeader('Allow', methods.join(', '));
+                throw new HttpError(405, `${req.method} is not supported on ${url.pathname}`);
+            }
+        };
+
+        if (!id) {
+            allow('GET', 'POST');
+            if (req.method === 'GET') {
+                sendJson(res, 200, { jobs: queue.list() });
+                return;
+            }
+
+            let options;
+            try {
+                options = parseJobRequest(await readJsonBody(req));
+            } catch (err) {
+                if (!(err instanceof OptionsValidationError)) throw err;
+                throw new HttpError(400, 'Invalid job options', err.issues);
+            }
+            const job = queue.submit(options);
+            res.setHeader('Location', `/jobs/${job.id}`);
+            sendJson(res, 202, job);
+            return;
+        }
+
+        const job = queue.get(id);
+        if (!job) {
+            throw new HttpError(404, `Job ${id} not found`);
+        }
+
+        switch (action) {
+            case undefined:
+                allow('GET');
+                sendJson(res, 200, job);
+                return;
+
+            case 'cancel':
+                allow('POST');
+                if (!queue.cancel(id)) {
+                    throw new HttpError(409, `Job ${id} already ${job.status}`);
+                }
+                sendJson(res, 202, job);
+                return;
+
+            case 'results': {
+                allow('GET');
+                const format = (url.searchParams.get('format') ?? 'json') as OutputFormat;
+                if (!JOB_RESULT_FORMATS.includes(format)) {
+                    throw new HttpError(400, `format must be one of ${JOB_RESULT_FORMATS.join(', ')}`);
+                }
+                const dataset = (url.searchParams.get('dataset') ?? 'agents') as JobDataset;
+                if (!JOB_DATASETS.includes(dataset)) {
+                    throw new HttpError(400, `dataset must be one of ${JOB_DATASETS.join(', ')}`);
+                }
+                if (dataset !== 'agents' && format !== 'json') {
+                    throw new HttpError(400, `dataset ${dataset} is only available as json`);
+                }
+                if (job.status === 'queued' || job.status === 'running') {
+                    throw new HttpError(409, `Job ${id} is ${job.status}; results are available once it finishes`);
+                }
+                const path = queue.resultsPath(id, format, dataset);
+                if (!path) {
+                    throw new HttpError(404, dataset === 'agents' ? `Job ${id} has no results` : `Job ${id} has no ${dataset} dataset`);
+                }
+                const fileName = dataset === 'agents' ? `${id}.${format}` : `${id}.${dataset}.${format}`;
+                res.writeHead(200, {
+                    'Content-Type': CONTENT_TYPES[format],
+                    'Content-Disposition': `attachment; filename="${fileName}"`
+                });
+                // A read error after the headers went out is logged and ends the response below
+                await pipeline(createReadStream(path), res);
+                return;
+            }
+
+            default:
+                throw new HttpError(404, `No route for ${url.pathname}`);
+        }
+    };
+
+    return createServer((req, res) => {
+        handle(req, res).catch(err => {
+            if (err instanceof HttpError) {
+                sendJson(res, err.status, err.issues.length > 0 ? { error: err.message, issues: err.issues } : { error: err.message });
+                return;
+            }
+            logger.error(`${req.method} ${req.url} failed: ${(err as Error).message}`);
+            if (!res.headersSent) {
+                sendJson(res, 500, { error: 'Internal server error' });
+            } else {
+                res.destroy();
+            }
+        });
+    });
+}
@@ -0,0 +1,256 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, extname } from 'path';
+import initSqlJs, { Database } from 'sql.js';
+import { AgentData, OutputFormat, OutputTarget } from './types';
+
+/**
+ * Destination for scraped agent records.
+ * `write` is called as each record completes; `close` once with the final,
+ * list-ordered results.
+ */
+export interface OutputSink {
+    readonly target: OutputTarget;
+    open(): Promise<void>;
+    write(agent: AgentData): Promise<void>;
+    close(results: AgentData[]): Promise<void>;
+}
+
+/**
+ * Columns written by tabular sinks (CSV, SQLite), in order
+ */
+export const AGENT_COLUMNS: (keyof AgentData)[] = [
+    'agent_name',
+    'profile_url',
+    'rating_stars',
+    'review_count',
+    'team_lead_profile_url',
+    'market',
+    'markets',
+    'duplicate_of',
+    'duplicate_reason',
+    'badge_type',
+    'sales_last_12_months',
+    'total_sales',
+    'average_price',
+    'price_range',
+    'average_price_usd',
+    'price_min_usd',
+    'price_max_usd',
+    'team_members_count',
+    'phone',
+    'brokerage_name',
+    'license_number',
+    'photo_url',
+    'years_experience',
+    'languages',
+    'specialties',
+    'service_area_cities',
+    'service_area_zips',
+    'scrape_time_seconds',
+    'scrape_status',
+    'error_type',
+    'error'
+];
+
+const EXTENSION_FORMATS: Record<string, OutputFormat> = {
+    '.json': 'json',
+    '.csv': 'csv',
+    '.ndjson': 'ndjson',
+    '.jsonl': 'ndjson',
+    '.sqlite': 'sqlite',
+    '.sqlite3': 'sqlite',
+    '.db': 'sqlite'
+};
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'csv', 'ndjson', 'sqlite'];
+
+/**
+ * Infer the output format from a file extension
+ */
+export function formatFromPath(path: string): OutputFormat | null {
+    return EXTENSION_FORMATS[extname(path).toLowerCase()] ?? null;
+}
+
+/**
+ * Parse an output spec: "data/pdx.csv" (format from extension) or "csv:data/pdx.txt"
+ */
+export function parseOutputSpec(spec: string): OutputTarget {
+    const match = spec.match(/^([a-z]+):(.+)$/);
+    if (match && (OUTPUT_FORMATS as string[]).includes(match[1])) {
+        return { path: match[2], format: match[1] as OutputFormat };
+    }
+
+    const format = formatFromPath(spec);
+    if (!format) {
+        throw new Error(`cannot infer output format for "${spec}"; use a known extension or prefix with one of ${OUTPUT_FORMATS.join(', ')} (e.g. "csv:${spec}")`);
+    }
+    return { path: spec, format };
+}
+
+/**
+ * Flatten a record value for a CSV cell or SQLite column
+ */
+function toCell(value: unknown): string | number | null {
+    if (value === null || value === undefined) return null;
+    if (typeof value === 'number' || typeof value === 'string') return value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    return JSON.stringify(value);
+}
+
+/**
+ * Format a value as one CSV cell, quoting it when needed
+ */
+export function escapeCsv(value: unknown): string {
+    const cell = toCell(value);
+    if (cell === null) return '';
+    const text = String(cell);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function prepareFile(path: string): void {
+    mkdirSync(dirname(path), { recursive: true });
+}
+
+/**
+ * Pretty-printed JSON array, written once the run finishes
+ */
+export class JsonSink implements OutputSink {
+    constructor(public readonly target: OutputTarget) {}
+
+    async open(): Promise<void> {
+        prepareFile(this.target.path);
+    }
+
+    async write(): Promise<void> {
+        // A JSON array cannot be streamed; the full document is written on close
+    }
+
+    async close(results: AgentData[]): Promise<void> {
+        const tmpPath = `${this.target.path}.tmp`;
+        writeFileSync(tmpPath, JSON.stringify(results, null, 2), 'utf-8');
+        renameSync(tmpPath, this.target.path);
+    }
+}
+
+/**
+ * One JSON object per line, appended as each record completes
+ */
+export class NdjsonSink implements OutputSink {
+    constructor(public readonly target: OutputTarget) {}
+
+    async open(): Promise<void> {
+        prepareFile(this.target.path);
+        writeFileSync(this.target.path, '', 'utf-8');
+    }
+
+    async write(agent: AgentData): Promise<void> {
+        appendFileSync(this.target.path, JSON.stringify(agent) + '\n', 'utf-8');
+    }
+
+    async close(): Promise<void> {}
+}
+
+/**
+ * CSV with a header row, appended as each record completes
+ */
+export class CsvSink implements OutputSink {
+    constructor(public readonly target: OutputTarget) {}
+
+    async open(): Promise<void> {
+        prepareFile(this.target.path);
+        writeFileSync(this.target.path, AGENT_COLUMNS.join(',') + '\n', 'utf-8');
+    }
+
+    async write(agent: AgentData): Promise<void> {
+        const row = AGENT_COLUMNS.map(column => escapeCsv(agent[column])).join(',');
+        appendFileSync(this.target.path, row + '\n', 'utf-8');
+    }
+
+    async close(): Promise<void> {}
+}
+
+/**
+ * SQLite database with agents upserted by profile_url.
+ * Existing files are updated in place; missing columns are added.
+ */
+export class SqliteSink implements OutputSink {
+    private static readonly PERSIST_EVERY = 25;
+    private db: Database | null = null;
+    private pendingWrites = 0;
+
+    constructor(public readonly target: OutputTarget) {}
+
+    async open(): Promise<void> {
+        prepareFile(this.target.path);
+        const SQL = await initSqlJs();
+        this.db = existsSync(this.target.path)
+            ? new SQL.Database(readFileSync(this.target.path))
+            : new SQL.Database();
+
+        this.db.run('CREATE TABLE IF NOT EXISTS agents (profile_url TEXT PRIMARY KEY)');
+        const existing = new Set(
+            (this.db.exec('PRAGMA table_info(agents)')[0]?.values ?? []).map(row => String(row[1]))
+        );
+        for (const column of AGENT_COLUMNS) {
+            if (!existing.has(column)) {
+                this.db.run(`ALTER TABLE agents ADD COLUMN ${column}`);
+            }
+        }
+        if (!existing.has('updated_at')) {
+            this.db.run('ALTER TABLE agents ADD COLUMN updated_at TEXT');
+        }
+    }
+
+    async write(agent: AgentData): Promise<void> {
+        if (!this.db) throw new Error('SQLite sink not opened');
+
+        const columns = [...AGENT_COLUMNS, 'updated_at'];
+        const values = [...AGENT_COLUMNS.map(column => toCell(agent[column])), new Date().toISOString()];
+        const updates = columns
+            .filter(column => column !== 'profile_url')
+            .map(column => `${column} = excluded.${column}`)
+            .join(', ');
+
+        this.db.run(
+            `INSERT INTO agents (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})
+             ON CONFLICT(profile_url) DO UPDATE SET ${updates}`,
+            values
+        );
+
+        // Persist periodically so a crash loses at most a few records
+        if (++this.pendingWrites >= SqliteSink.PERSIST_EVERY) {
+            this.persist();
+        }
+    }
+
+    async close(): Promise<void> {
+        if (!this.db) return;
+        this.persist();
+        this.db.close();
+        this.db = null;
+    }
+
+    private persist(): void {
+        if (!this.db) return;
+        const tmpPath = `${this.target.path}.tmp`;
+        writeFileSync(tmpPath, Buffer.from(this.db.export()));
+        renameSync(tmpPath, this.target.path);
+        this.pendingWrites = 0;
+    }
+}
+
+/**
+ * Create the sink for an output target
+ */
+export function createSink(target: OutputTarget): OutputSink {
+    switch (target.format) {
+        case 'json':
+            return new JsonSink(target);
+        case 'csv':
+            return new CsvSink(target);
+        case 'ndjson':
+            return new NdjsonSink(target);
+        case 'sqlite':
+            return new SqliteSink(target);
+    }
+}
@@ -0,0 +1,252 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { AgentData, ScraperMetadata } from './types';
+import { canonicalProfileUrl } from './normalize';
+
+/**
+ * Results of one run keyed by profile_url
+ */
+export interface Snapshot {
+    metadata: ScraperMetadata;
+    list_url: string | null;
+    agents: Record<string, AgentData>;
+}
+
+/**
+ * One field that differs between two snapshots
+ */
+export interface FieldChange {
+    field: keyof AgentData;
+    before: unknown;
+    after: unknown;
+}
+
+/**
+ * An agent present in both snapshots with at least one changed field
+ */
+export interface AgentChange {
+    profile_url: string;
+    agent_name: string;
+    changes: FieldChange[];
+}
+
+/**
+ * An agent present in both snapshots whose detail scrape failed in either, so its
+ * fields were not compared
+ */
+export interface FailedScrapeChange {
+    profile_url: string;
+    agent_name: string;
+    failed_in: 'before' | 'after' | 'both';
+    error_type: string | null;  // error_type of the failed side (the newer one when both failed)
+}
+
+/**
+ * Differences between two snapshots
+ */
+export interface SnapshotDiff {
+    from: string;   // Timestamp of the older snapshot
+    to: string;     // Timestamp of the newer snapshot
+    added: AgentData[];
+    removed: AgentData[];
+    changed: AgentChange[];
+    failed: FailedScrapeChange[];
+}
+
+/**
+ * Fields compared between snapshots
+ */
+export const DIFF_FIELDS: (keyof AgentData)[] = [
+    'agent_name',
+    'rating_stars',
+    'review_count',
+    'badge_type',
+    'sales_last_12_months',
+    'total_sales',
+    'average_price',
+    'price_range',
+    'average_price_usd',
+    'team_members_count'
+];
+
+/**
+ * Build a snapshot from run results
+ */
+export function createSnapshot(results: AgentData[], metadata: ScraperMetadata, listUrl: string | null): Snapshot {
+    const agents: Record<string, AgentData> = {};
+    for (const agent of results) {
+        agents[canonicalProfileUrl(agent.profile_url)] = agent;
+    }
+    return { metadata, list_url: listUrl, agents };
+}
+
+/**
+ * Save a snapshot as <dir>/<timestamp>.<search>.json and return its path. `search` (a batch
+ * search name or location slug) keeps runs of different markets sharing a directory apart.
+ */
+export function saveSnapshot(dir: string, snapshot: Snapshot, search: string): string {
+    mkdirSync(dir, { recursive: true });
+    const fileName = `${snapshot.metadata.timestamp.replace(/[:.]/g, '-')}.${search}.json`;
+    const path = join(dir, fileName);
+    writeFileSync(path, JSON.stringify(snapshot, null, 2), 'utf-8');
+    return path;
+}
+
+/**
+ * Load a snapshot file. A plain results array (e.g. output.json) is accepted too,
+ * using the file's modification time as its timestamp.
+ */
+export function loadSnapshot(path: string): Snapshot {
+    if (!existsSync(path)) {
+        throw new Error(`Snapshot not found: ${path}`);
+    }
+
+    const data = JSON.parse(readFileSync(path, 'utf-8'));
+    if (Array.isArray(data)) {
+        const { mtime } = statSync(path);
+        return createSnapshot(data, {
+            total_agents: data.length,
+            total_time_seconds: 0,
+            average_time_per_agent: 0,
+            timestamp: mtime.toISOString()
+        }, null);
+    }
+
+    if (!data?.agents || !data?.metadata) {
+        throw new Error(`${path} is neither a snapshot nor a results array`);
+    }
+    // Re-keyed so snapshots taken before profile URLs were canonicalized still line up
+    return createSnapshot(Object.values(data.agents as Record<string, AgentData>), data.metadata, data.list_url ?? null);
+}
+
+/**
+ * The search a snapshot file name was saved for ("" for names without one)
+ */
+function snapshotSearch(fileName: string): string {
+    const stem = fileName.slice(0, -'.json'.length);
+    const dot = stem.indexOf('.');
+    return dot === -1 ? '' : stem.slice(dot + 1);
+}
+
+/**
+ * Paths of the two most recent snapshots of one search in a directory (older first).
+ * Without `search`, the search of the newest snapshot is used.
+ */
+export function latestSnapshotPair(dir: string, search?: string): [string, string] {
+    const all = readdirSync(dir).filter(name => name.endsWith('.json')).sort();
+    const wanted = search ?? (all.length > 0 ? snapshotSearch(all[all.length - 1]) : '');
+    const files = all.filter(name => snapshotSearch(name) === wanted);
+    if (files.length < 2) {
+        const of = wanted ? ` of ${wanted}` : '';
+        throw new Error(`Need at least two snapshots${of} in ${dir} (found ${files.length})`);
+    }
+    return [join(dir, files[files.length - 2]), join(dir, files[files.length - 1])];
+}
+
+/**
+ * Compare two snapshots: agents added, removed, and field-level changes
+ */
+export function diffSnapshots(before: Snapshot, after: Snapshot): SnapshotDiff {
+    const added: AgentData[] = [];
+    const removed: AgentData[] = [];
+    const changed: AgentChange[] = [];
+    const failed: FailedScrapeChange[] = [];
+
+    for (const [url, agent] of Object.entries(after.agents)) {
+        const previous = before.agents[url];
+        if (!previous) {
+            added.push(agent);
+            continue;
+        }
+
+        // A failed scrape has null details; comparing them would report every field as changed
+        const failedBefore = isFailedScrape(previous);
+        const failedAfter = isFailedScrape(agent);
+        if (failedBefore || failedAfter) {
+            failed.push({
+                profile_url: url,
+                agent_name: agent.agent_name,
+                failed_in: failedBefore && failedAfter ? 'both' : failedBefore ? 'before' : 'after',
+                error_type: (failedAfter ? agent.error_type : previous.error_type) ?? null
+            });
+            continue;
+        }
+
+        const changes: FieldChange[] = [];
+        for (const field of DIFF_FIELDS) {
+            const was = previous[field] ?? null;
+            const now = agent[field] ?? null;
+            if (was !== now) {
+                changes.push({ field, before: was, after: now });
+            }
+        }
+        if (changes.length > 0) {
+            changed.push({ profile_url: url, agent_name: agent.agent_name, changes });
+        }
+    }
+
+    for (const [url, agent] of Object.entries(before.agents)) {
+        if (!after.agents[url]) {
+            removed.push(agent);
+        }
+    }
+
+    return {
+        from: before.metadata.timestamp,
+        to: after.metadata.timestamp,
+        added,
+        removed,
+        changed,
+        failed
+    };
+}
+
+/**
+ * Whether a record's detail scrape failed. Results written before scrape_status existed count as scraped.
+ */
+function isFailedScrape(agent: AgentData): boolean {
+    return (agent.scrape_status ?? 'ok') !== 'ok';
+}
+
+/**
+ * Human-readable summary of a snapshot diff
+ */
+export function formatDiffSummary(diff: SnapshotDiff): string {
+    const lines: string[] = [];
+    lines.push(`Snapshot diff: ${diff.from} -> ${diff.to}`);
+    lines.push('='.repeat(50));
+
+    lines.push(`\nAdded agents (${diff.added.length}):`);
+    for (const agent of diff.added) {
+        lines.push(`  + ${agent.agent_name} (${agent.profile_url})`);
+    }
+
+    lines.push(`\nRemoved agents (${diff.removed.length}):`);
+    for (const agent of diff.removed) {
+        lines.push(`  - ${agent.agent_name} (${agent.profile_url})`);
+    }
+
+    lines.push(`\nChanged agents (${diff.changed.length}):`);
+    for (const agent of diff.changed) {
+        lines.push(`  ~ ${agent.agent_name}`);
+        for (const change of agent.changes) {
+            lines.push(`      ${change.field}: ${change.before ?? 'N/A'} -> ${change.after ?? 'N/A'}`);
+        }
+    }
+
+    lines.push(`\nNot compared, detail scrape failed (${diff.failed.length}):`);
+    for (const agent of diff.failed) {
+        const where = agent.failed_in === 'both' ? 'both snapshots' : agent.failed_in === 'before' ? 'older snapshot' : 'newer snapshot';
+        lines.push(`  ! ${agent.agent_name}: failed in ${where}${agent.error_type ? ` (${agent.error_type})` : ''}`);
+    }
+
+    // Teams that grew get their own section since they are easy to miss in the list above
+    const grownTeams = diff.changed.flatMap(agent => agent.changes
+        .filter(change => change.field === 'team_members_count' &&
+            typeof change.after === 'number' && (typeof change.before !== 'number' || change.after > change.before))
+        .map(change => `  ${agent.agent_name}: ${change.before ?? 0} -> ${change.after} members`));
+    lines.push(`\nTeams that grew (${grownTeams.length}):`);
+    lines.push(...grownTeams);
+
+    return lines.join('\n');
+}
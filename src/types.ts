@@ -2,6 +2,12 @@
  * Type definitions for Zillow agent scraper
  */
 
+import { ScrapeErrorKind } from './errors';
+import { ChallengeStrategyName } from './challenges';
+import { LogFormat, LogLevel } from './logger';
+import { AgentSortOrder, AgentTypeFilter } from './search';
+import { DuplicateReason } from './normalize';
+
 /**
  * Data extracted from list page (agent card)
  */
@@ -10,6 +16,7 @@ export interface AgentListItem {
     profile_url: string;
     rating_stars: number;
     review_count: number;
+    team_lead_profile_url?: string;  // Set for members queued from a team lead's profile
 }
 
 /**
@@ -19,16 +26,106 @@ export interface AgentDetails {
     badge_type: string | null;
     sales_last_12_months: number | null;
     total_sales: number | null;
-    average_price: string | null;
-    price_range: string | null;
+    average_price: string | null;     // Display string, e.g. "$710K"
+    price_range: string | null;       // Display string, e.g. "$12K - $9.3M"
+    average_price_usd: number | null; // Raw 3-year average sale price
+    price_min_usd: number | null;     // Raw 3-year minimum sale price
+    price_max_usd: number | null;     // Raw 3-year maximum sale price
     team_members_count: number | null;
+    // Contact group
+    phone: string | null;
+    // Brokerage group
+    brokerage_name: string | null;
+    license_number: string | null;
+    // Profile group
+    photo_url: string | null;
+    years_experience: number | null;
+    // Expertise group
+    languages: string[] | null;
+    specialties: string[] | null;
+    // Service areas group
+    service_area_cities: string[] | null;
+    service_area_zips: string[] | null;
 }
 
+/**
+ * Optional groups of profile fields that can be extracted
+ */
+export type ProfileFieldGroup = 'contact' | 'brokerage' | 'profile' | 'expertise' | 'service_areas';
+
+/**
+ * Outcome of scraping an agent's detail page
+ */
+export type ScrapeStatus = 'ok' | 'failed';
+
 /**
  * Complete agent data (list + detail combined)
  */
 export interface AgentData extends AgentListItem, AgentDetails {
     scrape_time_seconds?: number;  // Time taken to scrape this agent's detail page
+    scrape_status: ScrapeStatus;
+    error_type: ScrapeErrorKind | null;  // Set when scrape_status is 'failed'
+    error: string | null;
+    market?: string;      // Batch search that scraped this agent
+    markets?: string[];   // Every batch search whose list included this agent
+    duplicate_of?: string | null;   // profile_url of an earlier record that is likely the same agent
+    duplicate_reason?: DuplicateReason | null;  // What the two records share
+}
+
+/**
+ * A single review from an agent's profile, linked back by profile_url
+ */
+export interface AgentReview {
+    profile_url: string;
+    agent_name: string;
+    review_id: string | null;
+    reviewer: string | null;
+    date: string | null;
+    rating: number | null;
+    sub_ratings: Record<string, number> | null;  // e.g. local_knowledge, responsiveness
+    transaction_type: string | null;             // e.g. "Bought a home"
+    text: string | null;
+    agent_reply: string | null;
+}
+
+/**
+ * A property an agent sold (past sale) or currently lists for sale
+ */
+export interface AgentTransaction {
+    profile_url: string;
+    agent_name: string;
+    kind: 'past_sale' | 'active_listing';
+    zpid: string | null;
+    address: string | null;
+    city: string | null;
+    state: string | null;
+    zip: string | null;
+    date: string | null;            // Sold date for past sales, listing date if known otherwise
+    price_usd: number | null;
+    represented: 'buyer' | 'seller' | 'both' | null;
+    bedrooms: number | null;
+    bathrooms: number | null;
+    home_url: string | null;
+}
+
+/**
+ * A member of a team listed on the team lead's profile
+ */
+export interface AgentTeamMember {
+    team_lead_profile_url: string;
+    team_lead_name: string;
+    agent_name: string;
+    profile_url: string | null;     // Null when the member has no public profile
+    role: string | null;            // e.g. "Buyer's Agent"
+}
+
+/**
+ * Per-agent records collected alongside AgentData and output as separate datasets
+ */
+export interface RelatedRecords {
+    reviews: AgentReview[];
+    transactions: AgentTransaction[];
+    team_members: AgentTeamMember[];
 }
 
 /**
@@ -40,3 +137,70 @@ export interface ScraperMetadata {
     average_time_per_agent: number;
     timestamp: string;
 }
+
+/**
+ * Supported result file formats
+ */
+export type OutputFormat = 'json' | 'csv' | 'ndjson' | 'sqlite';
+
+/**
+ * A result file and the format it is written in
+ */
+export interface OutputTarget {
+    path: string;
+    format: OutputFormat;
+}
+
+/**
+ * Options controlling a single scrape run
+ */
+export interface ScraperOptions {
+    location: string;       // Zillow location slug (e.g. "seattle-wa") or 5-digit ZIP
+    topAgents: boolean;     // Restrict the directory to Zillow top agents
+    specialties: string[];  // Restrict the directory to agents with any of these specialties
+    languages: string[];    // Restrict the directory to agents speaking any of these languages
+    minPrice: number | null;   // Restrict the directory to agents selling in this price range...
+    maxPrice: number | null;   // ...in dollars
+    sort: AgentSortOrder;   // Directory sort order
+    agentType: AgentTypeFilter;  // Teams, individual agents or both
+    limit: number;          // Maximum number of agents to collect
+    outputs: OutputTarget[];  // Where results are written (the first is the primary output)
+    concurrency: number;    // Maximum detail page workers
+    requestsPerMinute: number;  // Global detail request budget (0 = unlimited)
+    minDelayMs: number;     // Randomized pause before each detail request...
+    maxDelayMs: number;     // ...between these bounds
+    adaptiveConcurrency: boolean;  // Back off on challenges/errors, ramp up when healthy
+    headless: boolean;      // Run Chromium without a visible window
+    resume: boolean;        // Continue from the checkpoint of an interrupted run
+    checkpointDir: string;  // Directory holding run checkpoints
+    retries: number;        // Extra attempts for retryable detail page failures
+    retryDelayMs: number;   // Base delay for exponential backoff between attempts
+    agentsFile: string | null;  // Scrape details for agents in this file instead of paginating the list
+    snapshotDir: string | null; // Save a dated snapshot of the results here
+    fieldGroups: ProfileFieldGroup[];  // Optional profile field groups to extract
+    reviews: boolean;       // Also collect each agent's reviews into a separate dataset
+    maxReviewsPerAgent: number;  // Cap on reviews collected per agent
+    transactions: boolean;  // Also collect past sales and active listings into a separate dataset
+    maxTransactionsPerAgent: number;  // Cap on past sales (and on listings) collected per agent
+    teamMembers: boolean;   // Also output each team member as a record linked to the team lead
+    expandTeams: boolean;   // Queue team member profiles for detail scraping too
+    market: string | null;  // Tag records with this search name (set by batch jobs)
+    recordDir: string | null;  // Save every list/profile response to this archive
+    replayDir: string | null;  // Serve responses from this archive instead of zillow.com
+    maxDriftPercent: number;   // Fail the run when schema drift affects more pages than this
+    challengeStrategy: ChallengeStrategyName;  // What to do when a bot challenge is detected
+    challengeDetectors: string[];  // Built-in challenge detectors to run
+    challengeTimeoutMs: number;    // How long to wait for a manual solve
+    challengeCooldownMs: number;   // How long the pause strategy holds all requests
+    sessionCount: number;          // Browser contexts kept open and rotated
+    storageStatePath: string | null;  // Cookies/storage file loaded into new contexts and saved after the run
+    userDataDir: string | null;    // Persistent browser profile (one session, no rotation)
+    proxiesFile: string | null;    // Proxy list, one URL per line, rotated across contexts
+    userAgentsFile: string | null; // User agents, one per line (default: a built-in list)
+    maxSessionFailures: number;    // Consecutive failures before a context and its proxy are retired
+    logLevel: LogLevel;     // Least severe log level written ('silent' writes nothing)
+    logFormat: LogFormat;   // Readable text, NDJSON records or a progress bar
+    cachePath: string | null;  // Profile cache updated with every scraped profile
+    refresh: boolean;       // Reuse cached profiles that are still fresh instead of re-scraping them
+    cacheMaxAgeDays: number;   // Cached profiles older than this are re-scraped in refresh mode
+}
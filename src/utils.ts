@@ -1,4 +1,7 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
 import { Page } from 'playwright';
+import { AgentListItem } from './types';
 
 /**
  * Delay execution for specified milliseconds
@@ -43,6 +46,25 @@ export function parseNumber(text: string | null): number | null {
     return match ? parseInt(match[0], 10) : null;
 }
 
+/**
+ * Format a dollar amount for display: "$950", "$710K", "$9.3M", "-$5K".
+ * Amounts that would round up to the next unit use it ("$1.0M", not "$1000K");
+ * NaN and infinities give "N/A".
+ */
+export function formatCurrency(amount: number): string {
+    if (!Number.isFinite(amount)) return 'N/A';
+
+    const sign = amount < 0 ? '-' : '';
+    const value = Math.abs(amount);
+    if (value >= 999500) {
+        return `${sign}$${(value / 1000000).toFixed(1)}M`;
+    } else if (value >= 999.5) {
+        return `${sign}$${(value / 1000).toFixed(0)}K`;
+    }
+    const rounded = Math.round(value);
+    return rounded === 0 ? '$0' : `${sign}$${rounded}`;
+}
+
 /**
  * Extract text content from element by label proximity
  * Finds label, then looks for nearby value
@@ -100,3 +122,77 @@ export async function waitForPageLoad(page: Page): Promise<void> {
     });
     await delay(1000);
 }
+
+/**
+ * Read the raw text of the page's `__NEXT_DATA__` script tag
+ */
+export async function readNextDataScript(page: Page): Promise<string | null> {
+    return page.evaluate(() => document.querySelector('#__NEXT_DATA__')?.textContent || null);
+}
+
+/**
+ * Exponential backoff with jitter: half of min(max, base * 2^attempt) plus a random share of the other half
+ */
+export function backoffDelay(attempt: number, baseMs: number, maxMs = 60000): number {
+    const ceiling = Math.min(maxMs, baseMs * 2 ** attempt);
+    return Math.floor(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/**
+ * Retry an async operation with exponential backoff and jitter.
+ * `shouldRetry` decides whether a given error is worth another attempt.
+ */
+export async function retryWithBackoff<T>(
+    operation: (attempt: number) => Promise<T>,
+    options: {
+        retries: number;
+        baseDelayMs: number;
+        shouldRetry: (err: unknown) => boolean;
+        onRetry?: (err: unknown, attempt: number, waitMs: number) => void;
+    }
+): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await operation(attempt);
+        } catch (err) {
+            if (attempt >= options.retries || !options.shouldRetry(err)) {
+                throw err;
+            }
+
+            const waitMs = backoffDelay(attempt, options.baseDelayMs);
+            options.onRetry?.(err, attempt + 1, waitMs);
+            await delay(waitMs);
+        }
+    }
+}
+
+/**
+ * Read agents to scrape from a JSON array file (output, *.failed.json or a checkpoint list).
+ * Only the list-card fields are kept.
+ */
+export function readAgentListFile(path: string): AgentListItem[] {
+    const data = JSON.parse(readFileSync(path, 'utf-8'));
+    if (!Array.isArray(data)) {
+        throw new Error(`Agents file ${path} must contain a JSON array`);
+    }
+
+    return data.map((entry, index) => {
+        if (typeof entry?.profile_url !== 'string' || !entry.profile_url) {
+            throw new Error(`Agents file ${path}: entry ${index} has no profile_url`);
+        }
+        return {
+            agent_name: String(entry.agent_name ?? ''),
+            profile_url: entry.profile_url,
+            rating_stars: Number(entry.rating_stars) || 0,
+            review_count: Number(entry.review_count) || 0
+        };
+    });
+}
+
+/**
+ * Path next to a data file with a different suffix, e.g. ("out/pdx.json", "failed") -> "out/pdx.failed.json"
+ */
+export function siblingPath(path: string, suffix: string, extension = '.json'): string {
+    const base = extname(path) ? path.slice(0, -extname(path).length) : path;
+    return `${base}.${suffix}${extension}`;
+}
@@ -0,0 +1,138 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ProfileCache } from '../src/cache';
+import { emptyAgentDetails } from '../src/parsers';
+import { Logger } from '../src/logger';
+import { AgentData, AgentListItem, RelatedRecords } from '../src/types';
+
+const SILENT = Logger.create({ level: 'silent', format: 'text' });
+const DAY = 24 * 60 * 60 * 1000;
+const NO_RELATED: RelatedRecords = { reviews: [], transactions: [], team_members: [] };
+
+const CARD: AgentListItem = {
+    agent_name: 'Jane Doe',
+    profile_url: 'https://www.zillow.com/profile/janedoe-realtor/',
+    rating_stars: 4.9,
+    review_count: 87
+};
+
+const SCRAPED: AgentData = {
+    ...CARD,
+    ...emptyAgentDetails(),
+    total_sales: 40,
+    phone: '(206) 555-0100',
+    scrape_time_seconds: 3.2,
+    scrape_status: 'ok',
+    error_type: null,
+    error: null
+};
+
+describe('ProfileCache', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'zillow-cache-'));
+    after(() => rmSync(dir, { recursive: true, force: true }));
+
+    let fileCount = 0;
+    const freshPath = () => join(dir, `cache-${++fileCount}.json`);
+
+    /**
+     * A cache holding SCRAPED, recorded with `collected`
+     */
+    function cacheWith(collected: string[]): ProfileCache {
+        const cache = new ProfileCache(freshPath(), SILENT);
+        cache.record(SCRAPED, NO_RELATED, collected);
+        return cache;
+    }
+
+    describe('refreshReason', () => {
+        it('is new for an agent not in the cache', () => {
+            assert.equal(new ProfileCache(freshPath(), SILENT).refreshReason(CARD, DAY, []), 'new');
+        });
+
+        it('is stale once the entry is older than the maximum age', () => {
+            const cache = cacheWith(['contact']);
+            const scrapedAt = Date.parse(cache.get(CARD.profile_url)?.scraped_at ?? '');
+
+            assert.equal(cache.refreshReason(CARD, DAY, ['contact'], scrapedAt + DAY), null);
+            assert.equal(cache.refreshReason(CARD, DAY, ['contact'], scrapedAt + DAY + 1), 'stale');
+        });
+
+        it('is changed when the list card rating or review count differs', () => {
+            const cache = cacheWith(['contact']);
+
+            assert.equal(cache.refreshReason({ ...CARD, review_count: 88 }, DAY, ['contact']), 'changed');
+            assert.equal(cache.refreshReason({ ...CARD, rating_stars: 4.8 }, DAY, ['contact']), 'changed');
+        });
+
+        it('is incomplete when the run collects something the entry lacks', () => {
+            const cache = cacheWith(['contact', 'brokerage']);
+
+            assert.equal(cache.refreshReason(CARD, DAY, ['contact', 'reviews']), 'incomplete');
+            assert.equal(cache.refreshReason(CARD, DAY, ['brokerage']), null);
+        });
+
+        it('checks staleness before changes and changes before completeness', () => {
+            const cache = cacheWith([]);
+            const changedCard = { ...CARD, review_count: 90 };
+
+            assert.equal(cache.refreshReason(changedCard, DAY, ['reviews'], Date.now() + 2 * DAY), 'stale');
+            assert.equal(cache.refreshReason(changedCard, DAY, ['reviews']), 'changed');
+        });
+    });
+
+    it('keeps only profile details, not run bookkeeping', () => {
+        const cached = cacheWith(['contact']).get(CARD.profile_url);
+
+        assert.deepEqual(cached?.details, { ...emptyAgentDetails(), total_sales: 40, phone: '(206) 555-0100' });
+        assert.deepEqual(cached?.collected, ['contact']);
+    });
+
+    it('saves recorded profiles without dropping entries written by another run', () => {
+        const path = freshPath();
+        const first = new ProfileCache(path, SILENT);
+        const second = new ProfileCache(path, SILENT);
+        first.record(SCRAPED, NO_RELATED, []);
+        first.save();
+        second.record({ ...SCRAPED, agent_name: 'Sam Lee', profile_url: 'https://www.zillow.com/profile/samlee22/' }, NO_RELATED, []);
+        second.save();
+
+        const reloaded = new ProfileCache(path, SILENT);
+        assert.equal(reloaded.size, 2);
+        assert.equal(reloaded.get(CARD.profile_url)?.agent_name, 'Jane Doe');
+    });
+
+    it('re-keys entries by canonical profile URL, keeping the newer one', () => {
+        const path = freshPath();
+        const entry = (scrapedAt: string, reviews: number) => ({
+            agent_name: 'Jane Doe',
+            rating_stars: 4.9,
+            review_count: reviews,
+            details: emptyAgentDetails(),
+            related: NO_RELATED,
+            collected: [],
+            scraped_at: scrapedAt
+        });
+        writeFileSync(path, JSON.stringify({
+            profiles: {
+                'https://www.zillow.com/profile/JaneDoe-Realtor': entry('2026-10-12T08:00:00.000Z', 80),
+                'https://www.zillow.com/profile/janedoe-realtor/?src=list': entry('2026-10-19T08:00:00.000Z', 87)
+            }
+        }), 'utf-8');
+
+        const cache = new ProfileCache(path, SILENT);
+        assert.equal(cache.size, 1);
+        assert.equal(cache.get(CARD.profile_url)?.review_count, 87);
+    });
+
+    it('treats an unreadable cache file as empty', () => {
+        const path = freshPath();
+        writeFileSync(path, '{"profiles": {', 'utf-8');
+
+        const cache = new ProfileCache(path, SILENT);
+        assert.equal(cache.size, 0);
+        assert.equal(cache.refreshReason(CARD, DAY, []), 'new');
+        assert.equal(readFileSync(path, 'utf-8'), '{"profiles": {');
+    });
+});
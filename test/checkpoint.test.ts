@@ -0,0 +1,129 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { appendFileSync, mkdtempSync, readFileSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CheckpointParams, CheckpointStore } from '../src/checkpoint';
+import { emptyAgentDetails } from '../src/parsers';
+import { AgentData, AgentListItem } from '../src/types';
+
+const PARAMS: CheckpointParams = {
+    list_url: 'https://www.zillow.com/professionals/real-estate-agent-reviews/seattle-wa/',
+    limit: 50,
+    agents_file: null
+};
+
+const LISTED: AgentListItem[] = [
+    { agent_name: 'Jane Doe', profile_url: 'https://www.zillow.com/profile/janedoe-realtor/', rating_stars: 4.9, review_count: 87 },
+    { agent_name: 'Sam Lee', profile_url: 'https://www.zillow.com/profile/samlee22/', rating_stars: 5, review_count: 12 }
+];
+
+/**
+ * A finished detail record for a listed agent
+ */
+function scraped(agent: AgentListItem): AgentData {
+    return { ...agent, ...emptyAgentDetails(), total_sales: 40, scrape_status: 'ok', error_type: null, error: null };
+}
+
+describe('CheckpointStore', () => {
+    const root = mkdtempSync(join(tmpdir(), 'zillow-checkpoint-'));
+    after(() => rmSync(root, { recursive: true, force: true }));
+
+    let dirCount = 0;
+    const freshDir = () => join(root, String(++dirCount));
+
+    it('keys checkpoints by the list URL, limit and agents file', () => {
+        const key = CheckpointStore.keyFor(PARAMS);
+
+        assert.equal(CheckpointStore.keyFor({ ...PARAMS }), key);
+        assert.notEqual(CheckpointStore.keyFor({ ...PARAMS, list_url: `${PARAMS.list_url}?language=Spanish` }), key);
+        assert.notEqual(CheckpointStore.keyFor({ ...PARAMS, limit: 51 }), key);
+        assert.notEqual(CheckpointStore.keyFor({ ...PARAMS, agents_file: '/tmp/agents.json' }), key);
+    });
+
+    it('never resumes progress saved for other parameters', () => {
+        const dir = freshDir();
+        const seattle = new CheckpointStore(dir, PARAMS);
+        seattle.reset();
+        seattle.markListComplete(LISTED);
+        seattle.recordAgent(scraped(LISTED[0]));
+
+        const portland = new CheckpointStore(dir, { ...PARAMS, list_url: PARAMS.list_url.replace('seattle-wa', 'portland-or') });
+        assert.equal(portland.load(), null);
+        assert.equal(new CheckpointStore(dir, { ...PARAMS, limit: 10 }).load(), null);
+        assert.deepEqual(Object.keys(new CheckpointStore(dir, PARAMS).load()?.completed ?? {}), [LISTED[0].profile_url]);
+    });
+
+    it('returns null when nothing was saved', () => {
+        assert.equal(new CheckpointStore(freshDir(), PARAMS).load(), null);
+    });
+
+    it('replays agents appended to the NDJSON log on resume', () => {
+        const dir = freshDir();
+        const store = new CheckpointStore(dir, PARAMS);
+        store.reset();
+        store.recordListPage(1, LISTED.slice(0, 1));
+        store.markListComplete(LISTED);
+        const review = {
+            profile_url: LISTED[0].profile_url,
+            agent_name: LISTED[0].agent_name,
+            review_id: 'r-1',
+            reviewer: null,
+            date: null,
+            rating: 5,
+            sub_ratings: null,
+            transaction_type: null,
+            text: 'Great',
+            agent_reply: null
+        };
+        store.recordAgent(scraped(LISTED[0]), { reviews: [review], transactions: [], team_members: [] });
+        store.recordAgent(scraped(LISTED[1]));
+
+        // Finished agents only reach the log until the state is rewritten
+        const logPath = join(dir, `${CheckpointStore.keyFor(PARAMS)}.agents.ndjson`);
+        assert.equal(readFileSync(logPath, 'utf-8').trim().split('\n').length, 2);
+        assert.deepEqual(JSON.parse(readFileSync(store.path, 'utf-8')).completed, {});
+
+        const resumed = new CheckpointStore(dir, PARAMS).load();
+        assert.ok(resumed);
+        assert.equal(resumed.list_complete, true);
+        assert.equal(resumed.current_page, 1);
+        assert.deepEqual(resumed.list_items, LISTED);
+        assert.deepEqual(resumed.completed, {
+            [LISTED[0].profile_url]: scraped(LISTED[0]),
+            [LISTED[1].profile_url]: scraped(LISTED[1])
+        });
+        assert.deepEqual(resumed.related[LISTED[0].profile_url].reviews, [review]);
+        assert.equal(resumed.related[LISTED[1].profile_url], undefined);
+
+        // Loading folds the log into the state file
+        assert.equal(readFileSync(logPath, 'utf-8'), '');
+        assert.equal(Object.keys(JSON.parse(readFileSync(store.path, 'utf-8')).completed).length, 2);
+        assert.deepEqual(readdirSync(dir).sort(), [`${CheckpointStore.keyFor(PARAMS)}.agents.ndjson`, `${CheckpointStore.keyFor(PARAMS)}.json`]);
+    });
+
+    it('skips a log line torn by a crash', () => {
+        const dir = freshDir();
+        const store = new CheckpointStore(dir, PARAMS);
+        store.reset();
+        store.recordAgent(scraped(LISTED[0]));
+        appendFileSync(join(dir, `${CheckpointStore.keyFor(PARAMS)}.agents.ndjson`), '{"agent":{"agent_name":"Sam', 'utf-8');
+
+        const resumed = new CheckpointStore(dir, PARAMS).load();
+        assert.deepEqual(Object.keys(resumed?.completed ?? {}), [LISTED[0].profile_url]);
+    });
+
+    it('discards saved progress on reset', () => {
+        const dir = freshDir();
+        const store = new CheckpointStore(dir, PARAMS);
+        store.reset();
+        store.markListComplete(LISTED);
+        store.recordAgent(scraped(LISTED[0]));
+
+        new CheckpointStore(dir, PARAMS).reset();
+
+        const resumed = new CheckpointStore(dir, PARAMS).load();
+        assert.equal(resumed?.list_complete, false);
+        assert.deepEqual(resumed?.completed, {});
+    });
+});
@@ -0,0 +1,145 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DuplicateDetector, canonicalProfileUrl, normalizeAgentName } from '../src/normalize';
+import { emptyAgentDetails } from '../src/parsers';
+import { AgentData } from '../src/types';
+
+/**
+ * A scraped record with no details beyond those given
+ */
+function agent(fields: Partial<AgentData> & Pick<AgentData, 'agent_name' | 'profile_url'>): AgentData {
+    return {
+        rating_stars: 5,
+        review_count: 10,
+        ...emptyAgentDetails(),
+        scrape_status: 'ok',
+        error_type: null,
+        error: null,
+        ...fields
+    };
+}
+
+describe('canonicalProfileUrl', () => {
+    const CANONICAL = 'https://www.zillow.com/profile/janedoe-realtor/';
+
+    it('adds one trailing slash', () => {
+        assert.equal(canonicalProfileUrl('https://www.zillow.com/profile/janedoe-realtor'), CANONICAL);
+        assert.equal(canonicalProfileUrl('https://www.zillow.com/profile/janedoe-realtor//'), CANONICAL);
+        assert.equal(canonicalProfileUrl(CANONICAL), CANONICAL);
+    });
+
+    it('lowercases the path', () => {
+        assert.equal(canonicalProfileUrl('https://www.zillow.com/profile/JaneDoe-Realtor/'), CANONICAL);
+    });
+
+    it('drops the query string and fragment', () => {
+        assert.equal(canonicalProfileUrl('https://www.zillow.com/profile/janedoe-realtor/?utm_source=directory#reviews'), CANONICAL);
+    });
+
+    it('uses https://www.zillow.com for any Zillow host and for site-relative links', () => {
+        assert.equal(canonicalProfileUrl('http://zillow.com/profile/janedoe-realtor'), CANONICAL);
+        assert.equal(canonicalProfileUrl('https://WWW.ZILLOW.COM/profile/janedoe-realtor/'), CANONICAL);
+        assert.equal(canonicalProfileUrl(' /profile/janedoe-realtor '), CANONICAL);
+    });
+
+    it('returns other hosts and non-URLs trimmed', () => {
+        assert.equal(canonicalProfileUrl(' https://example.com/Profile/x '), 'https://example.com/Profile/x');
+        assert.equal(canonicalProfileUrl(' janedoe '), 'janedoe');
+    });
+});
+
+describe('normalizeAgentName', () => {
+    it('removes invisible characters and collapses whitespace', () => {
+        assert.equal(normalizeAgentName('  Jane\u200B   Doe\n'), 'Jane Doe');
+    });
+});
+
+describe('DuplicateDetector', () => {
+    const TEAM = 'https://www.zillow.com/profile/everydoorrealestate/';
+
+    it('flags a team member listed again as an individual with the same license', () => {
+        const detector = new DuplicateDetector();
+        const member = agent({ agent_name: 'Alex Smith', profile_url: 'https://www.zillow.com/profile/alexsmith-seattle/', team_lead_profile_url: TEAM, license_number: 'WA-21003456' });
+        const individual = agent({ agent_name: 'Alexander Smith', profile_url: 'https://www.zillow.com/profile/alex-smith-realtor/', license_number: 'wa 21003456' });
+
+        assert.equal(detector.check(member), null);
+        const merge = detector.check(individual);
+
+        assert.equal(merge?.reason, 'license');
+        assert.equal(individual.duplicate_of, member.profile_url);
+        assert.equal(individual.duplicate_reason, 'license');
+        assert.equal(member.duplicate_of, null);
+    });
+
+    it('flags an individual and a team member sharing a phone number', () => {
+        const detector = new DuplicateDetector();
+        const individual = agent({ agent_name: 'Sam Lee', profile_url: 'https://www.zillow.com/profile/samlee22/', phone: '(206) 555-0199' });
+        const member = agent({ agent_name: 'Samuel Lee', profile_url: 'https://www.zillow.com/profile/samuel-lee/', team_lead_profile_url: TEAM, phone: '+1 206.555.0199' });
+
+        detector.check(individual);
+        assert.equal(detector.check(member)?.reason, 'phone');
+        assert.equal(member.duplicate_of, individual.profile_url);
+    });
+
+    it('does not flag team members sharing their team phone', () => {
+        const detector = new DuplicateDetector();
+        const lead = agent({ agent_name: 'The Every Door Team', profile_url: TEAM, phone: '(206) 555-0142' });
+        const first = agent({ agent_name: 'Alex Smith', profile_url: 'https://www.zillow.com/profile/alexsmith-seattle/', team_lead_profile_url: TEAM, phone: '(206) 555-0142' });
+        const second = agent({ agent_name: 'Sam Lee', profile_url: 'https://www.zillow.com/profile/samlee22/', team_lead_profile_url: TEAM, phone: '206-555-0142' });
+
+        assert.equal(detector.check(lead), null);
+        assert.equal(detector.check(first), null);
+        assert.equal(detector.check(second), null);
+        assert.deepEqual(detector.merges, []);
+    });
+
+    it('flags near-identical names at the same brokerage', () => {
+        const detector = new DuplicateDetector();
+        detector.check(agent({ agent_name: 'José Martínez', profile_url: 'https://www.zillow.com/profile/jmartinez/', brokerage_name: 'Pike Place Brokers' }));
+        const later = agent({ agent_name: 'Martinez, Jose', profile_url: 'https://www.zillow.com/profile/jose-martinez-2/', brokerage_name: 'Pike Place Brokers, LLC' });
+
+        assert.equal(detector.check(later), null);
+
+        const same = agent({ agent_name: 'Jose Martinez', profile_url: 'https://www.zillow.com/profile/jose-martinez-3/', brokerage_name: 'pike place brokers' });
+        assert.equal(detector.check(same)?.reason, 'name_brokerage');
+    });
+
+    it('records an audit entry for every merge', () => {
+        const detector = new DuplicateDetector();
+        const first = agent({ agent_name: 'Jane Doe', profile_url: 'https://www.zillow.com/profile/janedoe-realtor/', license_number: '21009999', phone: '(206) 555-0100' });
+        const byLicense = agent({ agent_name: 'Jane M. Doe', profile_url: 'https://www.zillow.com/profile/jane-m-doe/', license_number: '21009999' });
+        const byPhone = agent({ agent_name: 'J. Doe', profile_url: 'https://www.zillow.com/profile/jdoe/', phone: '206 555 0100' });
+
+        detector.check(first);
+        detector.check(byLicense);
+        detector.check(byPhone);
+
+        assert.deepEqual(detector.merges, [
+            {
+                profile_url: first.profile_url,
+                agent_name: 'Jane Doe',
+                duplicate_profile_url: byLicense.profile_url,
+                duplicate_agent_name: 'Jane M. Doe',
+                reason: 'license',
+                matched: '21009999'
+            },
+            {
+                profile_url: first.profile_url,
+                agent_name: 'Jane Doe',
+                duplicate_profile_url: byPhone.profile_url,
+                duplicate_agent_name: 'J. Doe',
+                reason: 'phone',
+                matched: '2065550100'
+            }
+        ]);
+    });
+
+    it('skips failed records', () => {
+        const detector = new DuplicateDetector();
+        detector.check(agent({ agent_name: 'Jane Doe', profile_url: 'https://www.zillow.com/profile/a/', license_number: '21009999' }));
+        const failed = agent({ agent_name: 'Jane Doe', profile_url: 'https://www.zillow.com/profile/b/', license_number: '21009999', scrape_status: 'failed', error_type: 'timeout', error: 'Timeout' });
+
+        assert.equal(detector.check(failed), null);
+        assert.equal(failed.duplicate_of, undefined);
+    });
+});
@@ -0,0 +1,284 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+    emptyAgentDetails,
+    parseListPageNextData,
+    parseProfileNextData,
+    parseProfileReviews,
+    parseProfileTeamMembers,
+    parseProfileTransactions
+} from '../src/parsers';
+import { ScrapeError } from '../src/errors';
+
+/**
+ * Raw text of a saved `__NEXT_DATA__` script
+ */
+function fixture(name: string): string {
+    return readFileSync(join(__dirname, 'fixtures', name), 'utf-8');
+}
+
+/**
+ * A fixture parsed, for tests that edit its shape
+ */
+function fixtureData(name: string): object {
+    return JSON.parse(fixture(name));
+}
+
+/**
+ * The object holding the last step of a dotted path ("a.b.0.c") in a parsed fixture
+ */
+function parentOf(data: unknown, path: string): { node: Record<string, unknown>; key: string } {
+    const keys = path.split('.');
+    const key = keys.pop() ?? '';
+    const node = keys.reduce<unknown>((value, step) => (value as Record<string, unknown> | null)?.[step], data);
+    assert.ok(typeof node === 'object' && node !== null, `fixture has no ${path}`);
+    return { node: node as Record<string, unknown>, key };
+}
+
+/**
+ * Read a dotted path from a parsed fixture
+ */
+function getAt(data: unknown, path: string): unknown {
+    const { node, key } = parentOf(data, path);
+    return node[key];
+}
+
+/**
+ * Replace the value at a dotted path in a parsed fixture
+ */
+function setAt(data: unknown, path: string, value: unknown): void {
+    const { node, key } = parentOf(data, path);
+    node[key] = value;
+}
+
+/**
+ * Remove the key at a dotted path from a parsed fixture
+ */
+function deleteAt(data: unknown, path: string): void {
+    const { node, key } = parentOf(data, path);
+    delete node[key];
+}
+
+const RESULTS = 'props.pageProps.displayData.agentDirectoryFinderDisplay.searchResults.results';
+const CARDS = `${RESULTS}.resultsCards`;
+
+const AGENT = { profile_url: 'https://www.zillow.com/profile/everydoorrealestate/', agent_name: 'The Every Door Team' };
+
+describe('parseListPageNextData', () => {
+    it('extracts profile cards from the raw script text', () => {
+        assert.deepEqual(parseListPageNextData(fixture('list-page.next-data.json')), [
+            {
+                agent_name: 'The Every Door Team',
+                profile_url: 'https://www.zillow.com/profile/everydoorrealestate',
+                rating_stars: 5,
+                review_count: 2391
+            },
+            {
+                agent_name: 'Jane Doe',
+                profile_url: 'https://www.zillow.com/profile/janedoe-realtor',
+                rating_stars: 4.9,
+                review_count: 87
+            }
+        ]);
+    });
+
+    it('accepts an already parsed payload', () => {
+        assert.equal(parseListPageNextData(fixtureData('list-page.next-data.json')).length, 2);
+    });
+
+    it('counts no reviews when the review count text is missing', () => {
+        const data = fixtureData('list-page.next-data.json');
+        deleteAt(data, `${CARDS}.0.reviewInformation.reviewCountText`);
+
+        assert.equal(parseListPageNextData(data)[0].review_count, 0);
+    });
+
+    it('skips cards without a name, link or rating', () => {
+        const data = fixtureData('list-page.next-data.json');
+        deleteAt(data, `${CARDS}.0.cardTitle`);
+        deleteAt(data, `${CARDS}.2.reviewInformation`);
+
+        assert.deepEqual(parseListPageNextData(data), []);
+    });
+
+    it('returns no agents when the results cards have moved', () => {
+        const data = fixtureData('list-page.next-data.json');
+        setAt(data, RESULTS, { cards: getAt(data, CARDS) });
+
+        assert.deepEqual(parseListPageNextData(data), []);
+        assert.deepEqual(parseListPageNextData({ props: { pageProps: {} } }), []);
+        assert.deepEqual(parseListPageNextData('{}'), []);
+    });
+
+    it('returns no agents when the results cards are not a list', () => {
+        const data = fixtureData('list-page.next-data.json');
+        setAt(data, CARDS, { count: 2 });
+
+        assert.deepEqual(parseListPageNextData(data), []);
+    });
+
+    it('throws on text that is not JSON', () => {
+        assert.throws(() => parseListPageNextData('<html>Access denied</html>'), SyntaxError);
+    });
+});
+
+describe('parseProfileNextData', () => {
+    it('extracts stats, badge, team size and every field group', () => {
+        assert.deepEqual(parseProfileNextData(fixture('profile.next-data.json')), {
+            badge_type: 'Premier Agent',
+            sales_last_12_months: 761,
+            total_sales: 6666,
+            average_price: '$710K',
+            price_range: '$12K - $9.3M',
+            average_price_usd: 710000,
+            price_min_usd: 12000,
+            price_max_usd: 9300000,
+            team_members_count: 3,
+            phone: '(206) 555-0142',
+            brokerage_name: 'Every Door Real Estate',
+            license_number: '21003456',
+            photo_url: 'https://photos.zillowstatic.com/h_l/ISabc123.jpg',
+            years_experience: 12,
+            languages: ['English', 'Spanish'],
+            specialties: ["Buyer's Agent", 'Listing Agent'],
+            service_area_cities: ['Seattle', 'Bellevue'],
+            service_area_zips: ['98101']
+        });
+    });
+
+    it('leaves field groups that were not requested unset', () => {
+        const details = parseProfileNextData(fixture('profile.next-data.json'), ['contact']);
+
+        assert.equal(details.phone, '(206) 555-0142');
+        assert.equal(details.total_sales, 6666);
+        assert.equal(details.brokerage_name, null);
+        assert.equal(details.license_number, null);
+        assert.equal(details.languages, null);
+        assert.equal(details.service_area_cities, null);
+    });
+
+    it('marks Zillow Pro agents', () => {
+        const data = fixtureData('profile.next-data.json');
+        setAt(data, 'props.pageProps.graphQLData.isPremium', true);
+
+        assert.equal(parseProfileNextData(data).badge_type, 'Zillow Pro');
+    });
+
+    it('leaves every field null for an empty profile', () => {
+        assert.deepEqual(parseProfileNextData({ props: { pageProps: {} } }), emptyAgentDetails());
+    });
+
+    it('leaves missing and zero sales stats null', () => {
+        const data = fixtureData('profile.next-data.json');
+        setAt(data, 'props.pageProps.agentSalesStats', { countLastYear: 0, averageValueThreeYear: 'n/a', priceRangeThreeYearMin: 12000 });
+
+        const details = parseProfileNextData(data);
+        assert.equal(details.sales_last_12_months, null);
+        assert.equal(details.total_sales, null);
+        assert.equal(details.average_price, null);
+        assert.equal(details.average_price_usd, null);
+        assert.equal(details.price_min_usd, 12000);
+        assert.equal(details.price_max_usd, null);
+        assert.equal(details.price_range, null);
+    });
+
+    it('falls back to other fields when preferred ones are missing', () => {
+        const data = fixtureData('profile.next-data.json');
+        deleteAt(data, 'props.pageProps.displayUser.phoneNumbers.cell');
+        deleteAt(data, 'props.pageProps.displayUser.businessName');
+        setAt(data, 'props.pageProps.brokerageInfo', { name: 'Pike Place Brokers' });
+        setAt(data, 'props.pageProps.serviceAreas', 'Tacoma, 98402');
+
+        const details = parseProfileNextData(data);
+        assert.equal(details.phone, '(206) 555-0100');
+        assert.equal(details.brokerage_name, 'Pike Place Brokers');
+        assert.deepEqual(details.service_area_cities, ['Tacoma']);
+        assert.deepEqual(details.service_area_zips, ['98402']);
+    });
+
+    it('ignores sections whose shape has changed', () => {
+        const data = fixtureData('profile.next-data.json');
+        setAt(data, 'props.pageProps.teamDisplayInformation.teamLeadInfo.children', { count: 3 });
+        setAt(data, 'props.pageProps.professionalInformation', { licenses: ['21003456'] });
+        setAt(data, 'props.pageProps.getToKnowMe', 'about me');
+        setAt(data, 'props.pageProps.displayUser', null);
+
+        const details = parseProfileNextData(data);
+        assert.equal(details.team_members_count, null);
+        assert.equal(details.license_number, null);
+        assert.equal(details.years_experience, null);
+        assert.equal(details.specialties, null);
+        assert.equal(details.phone, null);
+        assert.equal(details.total_sales, 6666);
+    });
+
+    it('throws a schema_mismatch error without props.pageProps', () => {
+        const data = fixtureData('profile.next-data.json');
+        setAt(data, 'props', { initialState: getAt(data, 'props.pageProps') });
+
+        assert.throws(() => parseProfileNextData(data), (err: unknown) => {
+            assert.ok(err instanceof ScrapeError);
+            assert.equal(err.kind, 'schema_mismatch');
+            assert.equal(err.retryable, false);
+            return true;
+        });
+    });
+});
+
+describe('profile related records', () => {
+    it('extracts embedded reviews', () => {
+        assert.deepEqual(parseProfileReviews(fixture('profile.next-data.json'), AGENT), [
+            {
+                ...AGENT,
+                review_id: 'r-1001',
+                reviewer: 'happybuyer42',
+                date: '2024-05-12',
+                rating: 5,
+                sub_ratings: { local_knowledge: 5, responsiveness: 4.5 },
+                transaction_type: 'Bought a home',
+                text: 'Great experience from start to finish.',
+                agent_reply: 'Thank you!'
+            }
+        ]);
+    });
+
+    it('extracts past sales with absolute home links', () => {
+        const [sale, ...rest] = parseProfileTransactions(fixture('profile.next-data.json'), AGENT);
+
+        assert.equal(rest.length, 0);
+        assert.equal(sale.kind, 'past_sale');
+        assert.equal(sale.zpid, '48700123');
+        assert.equal(sale.price_usd, 1250000);
+        assert.equal(sale.represented, 'both');
+        assert.equal(sale.home_url, 'https://www.zillow.com/homedetails/123-Main-St-Seattle-WA-98101/48700123_zpid/');
+    });
+
+    it('extracts named team members', () => {
+        assert.deepEqual(parseProfileTeamMembers(fixture('profile.next-data.json'), AGENT), [
+            {
+                team_lead_profile_url: AGENT.profile_url,
+                team_lead_name: AGENT.agent_name,
+                agent_name: 'Alex Smith',
+                profile_url: 'https://www.zillow.com/profile/alexsmith-seattle/',
+                role: "Buyer's Agent"
+            },
+            {
+                team_lead_profile_url: AGENT.profile_url,
+                team_lead_name: AGENT.agent_name,
+                agent_name: 'Sam Lee',
+                profile_url: 'https://www.zillow.com/profile/samlee22/',
+                role: 'Listing Specialist'
+            }
+        ]);
+    });
+
+    it('returns no records when the sections are missing', () => {
+        const empty = { props: { pageProps: {} } };
+
+        assert.deepEqual(parseProfileReviews(empty, AGENT), []);
+        assert.deepEqual(parseProfileTransactions(empty, AGENT), []);
+        assert.deepEqual(parseProfileTeamMembers(empty, AGENT), []);
+    });
+});
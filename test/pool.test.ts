@@ -0,0 +1,133 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AdaptiveConcurrency, RateLimiter, WorkerPool, WorkerPoolOptions } from '../src/pool';
+import { Logger } from '../src/logger';
+
+const SILENT = Logger.create({ level: 'silent', format: 'text' });
+
+const OPTIONS: WorkerPoolOptions = {
+    concurrency: 8,
+    minConcurrency: 2,
+    requestsPerMinute: 0,
+    minDelayMs: 0,
+    maxDelayMs: 0,
+    adaptive: true,
+    rampUpAfter: 3
+};
+
+describe('RateLimiter', () => {
+    it('does not wait when unlimited', async () => {
+        const limiter = new RateLimiter(0);
+        const start = Date.now();
+        for (let i = 0; i < 100; i++) {
+            await limiter.acquire();
+        }
+        assert.ok(Date.now() - start < 500);
+    });
+
+    it('spaces requests evenly across the minute', async () => {
+        const limiter = new RateLimiter(1200);  // One every 50ms
+        const starts: number[] = [];
+        await Promise.all([0, 1, 2, 3].map(async () => {
+            await limiter.acquire();
+            starts.push(Date.now());
+        }));
+
+        starts.sort((a, b) => a - b);
+        // Timers may fire a little early or late, so allow some slack
+        assert.ok(starts[3] - starts[0] >= 140, `4 requests took ${starts[3] - starts[0]}ms`);
+        for (let i = 1; i < starts.length; i++) {
+            assert.ok(starts[i] - starts[i - 1] >= 40, `gap ${i} was ${starts[i] - starts[i - 1]}ms`);
+        }
+    });
+});
+
+describe('AdaptiveConcurrency', () => {
+    it('starts at the configured concurrency', () => {
+        assert.equal(new AdaptiveConcurrency(OPTIONS, SILENT).limit, 8);
+    });
+
+    it('halves on a challenge and drops by one on an error, down to the floor', () => {
+        const concurrency = new AdaptiveConcurrency(OPTIONS, SILENT);
+
+        concurrency.record('challenge');
+        assert.equal(concurrency.limit, 4);
+        concurrency.record('error');
+        assert.equal(concurrency.limit, 3);
+        concurrency.record('challenge');
+        assert.equal(concurrency.limit, 2);
+        concurrency.record('error');
+        concurrency.record('challenge');
+        assert.equal(concurrency.limit, 2);
+    });
+
+    it('adds a worker back after each streak of successes, up to the maximum', () => {
+        const concurrency = new AdaptiveConcurrency(OPTIONS, SILENT);
+        concurrency.record('challenge');
+
+        concurrency.record('ok');
+        concurrency.record('ok');
+        assert.equal(concurrency.limit, 4);
+        concurrency.record('ok');
+        assert.equal(concurrency.limit, 5);
+
+        for (let i = 0; i < 30; i++) {
+            concurrency.record('ok');
+        }
+        assert.equal(concurrency.limit, 8);
+    });
+
+    it('restarts the streak after a failure', () => {
+        const concurrency = new AdaptiveConcurrency(OPTIONS, SILENT);
+        concurrency.record('challenge');
+
+        concurrency.record('ok');
+        concurrency.record('ok');
+        concurrency.record('error');
+        assert.equal(concurrency.limit, 3);
+        concurrency.record('ok');
+        concurrency.record('ok');
+        assert.equal(concurrency.limit, 3);
+        concurrency.record('ok');
+        assert.equal(concurrency.limit, 4);
+    });
+
+    it('never changes when not adaptive', () => {
+        const concurrency = new AdaptiveConcurrency({ ...OPTIONS, adaptive: false }, SILENT);
+        concurrency.record('challenge');
+        concurrency.record('error');
+        assert.equal(concurrency.limit, 8);
+    });
+});
+
+describe('WorkerPool', () => {
+    it('keeps results in item order', async () => {
+        const pool = new WorkerPool<number, number>({ ...OPTIONS, concurrency: 3 }, SILENT);
+        const results = await pool.run(
+            [30, 10, 20, 0],
+            async ms => {
+                await new Promise(resolve => setTimeout(resolve, ms));
+                return ms * 2;
+            },
+            () => 'ok'
+        );
+        assert.deepEqual(results, [60, 20, 40, 0]);
+    });
+
+    it('rejects with a task error after the tasks in flight settle', async () => {
+        const pool = new WorkerPool<number, number>({ ...OPTIONS, concurrency: 2 }, SILENT);
+        const finished: number[] = [];
+
+        await assert.rejects(pool.run(
+            [1, 2, 3, 4],
+            async item => {
+                await new Promise(resolve => setTimeout(resolve, item === 1 ? 10 : 40));
+                if (item === 1) throw new Error('boom');
+                finished.push(item);
+                return item;
+            },
+            () => 'ok'
+        ), /boom/);
+        assert.deepEqual(finished, [2]);
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentSearchQuery, buildSearchUrl, parseSearchUrl } from '../src/search';
+
+const QUERY: AgentSearchQuery = {
+    location: 'portland-or',
+    topAgents: true,
+    specialties: ["Buyer's Agent", 'Relocation'],
+    languages: ['Spanish'],
+    minPrice: 300000,
+    maxPrice: 900000,
+    sort: 'recent_sales',
+    agentType: 'team'
+};
+
+const DIRECTORY = 'https://www.zillow.com/professionals/real-estate-agent-reviews';
+
+describe('buildSearchUrl', () => {
+    it('builds the first page without a page parameter', () => {
+        assert.equal(
+            buildSearchUrl({ ...QUERY, topAgents: false, specialties: [], languages: [], minPrice: null, maxPrice: null, sort: 'relevance', agentType: 'any' }),
+            `${DIRECTORY}/portland-or/`
+        );
+    });
+
+    it('adds every filter and the page number', () => {
+        const url = new URL(buildSearchUrl(QUERY, 3));
+
+        assert.equal(url.pathname, '/professionals/real-estate-agent-reviews/portland-or/');
+        assert.equal(url.searchParams.get('isTopAgent'), 'true');
+        assert.deepEqual(url.searchParams.getAll('specialty'), ["Buyer's Agent", 'Relocation']);
+        assert.deepEqual(url.searchParams.getAll('language'), ['Spanish']);
+        assert.equal(url.searchParams.get('priceMin'), '300000');
+        assert.equal(url.searchParams.get('priceMax'), '900000');
+        assert.equal(url.searchParams.get('sort'), 'recent_sales');
+        assert.equal(url.searchParams.get('agentType'), 'team');
+        assert.equal(url.searchParams.get('page'), '3');
+    });
+
+    it('rejects minPrice above maxPrice', () => {
+        assert.throws(() => buildSearchUrl({ ...QUERY, minPrice: 900000, maxPrice: 300000 }), /minPrice \(900000\) is above maxPrice \(300000\)/);
+    });
+
+    it('rejects a location that is not a slug or ZIP', () => {
+        assert.throws(() => buildSearchUrl({ ...QUERY, location: 'Portland, OR' }), /location "Portland, OR" must be a lowercase Zillow slug/);
+        assert.throws(() => buildSearchUrl({ ...QUERY, location: 'portland--or' }), /location "portland--or"/);
+    });
+
+    it('rejects a page below 1', () => {
+        assert.throws(() => buildSearchUrl(QUERY, 0), /page must be a positive integer/);
+    });
+});
+
+describe('parseSearchUrl', () => {
+    it('gives back the query a URL was built from', () => {
+        const url = buildSearchUrl(QUERY);
+        const parsed = parseSearchUrl(url);
+
+        assert.deepEqual(parsed, QUERY);
+        assert.equal(buildSearchUrl(parsed), url);
+    });
+
+    it('drops the page number', () => {
+        assert.deepEqual(parseSearchUrl(buildSearchUrl(QUERY, 4)), QUERY);
+    });
+
+    it('accepts a ZIP and a pasted URL without www or trailing slash', () => {
+        const query = parseSearchUrl(' https://zillow.com/professionals/real-estate-agent-reviews/98101 ');
+
+        assert.equal(query.location, '98101');
+        assert.equal(query.sort, 'relevance');
+        assert.equal(query.agentType, 'any');
+        assert.equal(buildSearchUrl(query), `${DIRECTORY}/98101/`);
+    });
+
+    it('rejects an unknown parameter', () => {
+        assert.throws(() => parseSearchUrl(`${DIRECTORY}/portland-or/?language=Spanish&utm_source=mail`), /Unsupported parameter "utm_source"/);
+    });
+
+    it('rejects a bad location slug', () => {
+        assert.throws(() => parseSearchUrl(`${DIRECTORY}/portland_or/`), /location "portland_or" must be a lowercase Zillow slug/);
+    });
+
+    it('rejects minPrice above maxPrice', () => {
+        assert.throws(() => parseSearchUrl(`${DIRECTORY}/portland-or/?priceMin=900000&priceMax=300000`), /minPrice \(900000\) is above maxPrice/);
+    });
+
+    it('rejects URLs that are not directory listings', () => {
+        assert.throws(() => parseSearchUrl('portland-or'), /is not a URL/);
+        assert.throws(() => parseSearchUrl('https://www.zillow.com/homes/portland-or/'), /is not a Zillow agent directory URL/);
+        assert.throws(() => parseSearchUrl('https://www.example.com/professionals/real-estate-agent-reviews/portland-or/'), /is not a Zillow agent directory URL/);
+    });
+});
@@ -0,0 +1,115 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import initSqlJs from 'sql.js';
+import { AGENT_COLUMNS, createSink, escapeCsv, parseOutputSpec } from '../src/sinks';
+import { emptyAgentDetails } from '../src/parsers';
+import { AgentData } from '../src/types';
+
+const AGENT: AgentData = {
+    agent_name: 'Doe, Jane "JD"',
+    profile_url: 'https://www.zillow.com/profile/janedoe-realtor/',
+    rating_stars: 4.9,
+    review_count: 87,
+    ...emptyAgentDetails(),
+    languages: ['English', 'Spanish'],
+    scrape_status: 'ok',
+    error_type: null,
+    error: null
+};
+
+describe('escapeCsv', () => {
+    it('leaves plain values unquoted', () => {
+        assert.equal(escapeCsv('Jane Doe'), 'Jane Doe');
+        assert.equal(escapeCsv(4.9), '4.9');
+        assert.equal(escapeCsv(0), '0');
+    });
+
+    it('writes null and undefined as empty cells', () => {
+        assert.equal(escapeCsv(null), '');
+        assert.equal(escapeCsv(undefined), '');
+    });
+
+    it('quotes cells with commas, quotes or line breaks', () => {
+        assert.equal(escapeCsv('Doe, Jane'), '"Doe, Jane"');
+        assert.equal(escapeCsv('Jane "JD" Doe'), '"Jane ""JD"" Doe"');
+        assert.equal(escapeCsv('line one\nline two'), '"line one\nline two"');
+        assert.equal(escapeCsv('line one\r\nline two'), '"line one\r\nline two"');
+    });
+
+    it('writes lists as quoted JSON and booleans as 1/0', () => {
+        assert.equal(escapeCsv(['English', 'Spanish']), '"[""English"",""Spanish""]"');
+        assert.equal(escapeCsv(true), '1');
+        assert.equal(escapeCsv(false), '0');
+    });
+});
+
+describe('parseOutputSpec', () => {
+    it('infers the format from the extension', () => {
+        assert.deepEqual(parseOutputSpec('data/pdx.csv'), { path: 'data/pdx.csv', format: 'csv' });
+        assert.deepEqual(parseOutputSpec('data/pdx.JSONL'), { path: 'data/pdx.JSONL', format: 'ndjson' });
+        assert.deepEqual(parseOutputSpec('agents.db'), { path: 'agents.db', format: 'sqlite' });
+    });
+
+    it('takes an explicit format prefix', () => {
+        assert.deepEqual(parseOutputSpec('csv:data/pdx.txt'), { path: 'data/pdx.txt', format: 'csv' });
+        assert.deepEqual(parseOutputSpec('json:out'), { path: 'out', format: 'json' });
+    });
+
+    it('rejects a spec whose format cannot be inferred', () => {
+        assert.throws(() => parseOutputSpec('data/pdx.txt'), /cannot infer output format for "data\/pdx.txt".*"csv:data\/pdx.txt"/);
+        assert.throws(() => parseOutputSpec('data/pdx'), /cannot infer output format/);
+    });
+
+    it('rejects an unknown format prefix', () => {
+        assert.throws(() => parseOutputSpec('xml:data/pdx.txt'), /cannot infer output format for "xml:data\/pdx.txt"/);
+    });
+});
+
+describe('sinks', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'zillow-sinks-'));
+    after(() => rmSync(dir, { recursive: true, force: true }));
+
+    it('writes a CSV header and one escaped row per record', async () => {
+        const path = join(dir, 'agents.csv');
+        const sink = createSink({ path, format: 'csv' });
+        await sink.open();
+        await sink.write({ ...AGENT, error: 'line one\nline two' });
+        await sink.close([AGENT]);
+
+        const text = readFileSync(path, 'utf-8');
+        assert.ok(text.startsWith(`${AGENT_COLUMNS.join(',')}\n"Doe, Jane ""JD""",https://www.zillow.com/profile/janedoe-realtor/,4.9,87,`));
+        assert.ok(text.endsWith(',ok,,"line one\nline two"\n'));
+    });
+
+    it('appends NDJSON lines and writes JSON on close', async () => {
+        const ndjson = createSink({ path: join(dir, 'agents.ndjson'), format: 'ndjson' });
+        const json = createSink({ path: join(dir, 'agents.json'), format: 'json' });
+        for (const sink of [ndjson, json]) {
+            await sink.open();
+            await sink.write(AGENT);
+            await sink.close([AGENT]);
+        }
+
+        assert.deepEqual(readFileSync(join(dir, 'agents.ndjson'), 'utf-8').trim().split('\n').map(line => JSON.parse(line)), [AGENT]);
+        assert.deepEqual(JSON.parse(readFileSync(join(dir, 'agents.json'), 'utf-8')), [AGENT]);
+    });
+
+    it('upserts SQLite rows by profile_url', async () => {
+        const path = join(dir, 'agents.sqlite');
+        for (const reviews of [87, 90]) {
+            const sink = createSink({ path, format: 'sqlite' });
+            await sink.open();
+            await sink.write({ ...AGENT, review_count: reviews });
+            await sink.close([]);
+        }
+
+        const SQL = await initSqlJs();
+        const db = new SQL.Database(readFileSync(path));
+        const [table] = db.exec('SELECT agent_name, review_count, languages FROM agents');
+        db.close();
+        assert.deepEqual(table.values, [['Doe, Jane "JD"', 90, '["English","Spanish"]']]);
+    });
+});
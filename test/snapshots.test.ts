@@ -0,0 +1,130 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Snapshot, createSnapshot, diffSnapshots, formatDiffSummary, latestSnapshotPair, loadSnapshot, saveSnapshot } from '../src/snapshots';
+import { emptyAgentDetails } from '../src/parsers';
+import { AgentData } from '../src/types';
+
+/**
+ * A scraped record for the profile `/profile/<slug>/`
+ */
+function agent(slug: string, fields: Partial<AgentData> = {}): AgentData {
+    return {
+        agent_name: slug,
+        profile_url: `https://www.zillow.com/profile/${slug}/`,
+        rating_stars: 5,
+        review_count: 10,
+        ...emptyAgentDetails(),
+        total_sales: 40,
+        team_members_count: 3,
+        scrape_status: 'ok',
+        error_type: null,
+        error: null,
+        ...fields
+    };
+}
+
+const FAILED: Partial<AgentData> = { ...emptyAgentDetails(), scrape_status: 'failed', error_type: 'timeout', error: 'Timeout 60000ms exceeded' };
+
+/**
+ * A snapshot of `agents` taken at `timestamp`
+ */
+function snapshot(timestamp: string, agents: AgentData[]): Snapshot {
+    return createSnapshot(agents, { total_agents: agents.length, total_time_seconds: 1, average_time_per_agent: 1, timestamp }, null);
+}
+
+describe('diffSnapshots', () => {
+    const before = snapshot('2026-10-12T08:00:00.000Z', [
+        agent('kept'),
+        agent('grown'),
+        agent('gone'),
+        agent('fails-now'),
+        agent('failed-before', FAILED),
+        agent('failed-both', FAILED)
+    ]);
+    const after = snapshot('2026-10-19T08:00:00.000Z', [
+        agent('kept'),
+        agent('grown', { review_count: 14, team_members_count: 5 }),
+        agent('fails-now', { ...FAILED, error_type: 'bot_challenge' }),
+        agent('failed-before', { total_sales: 12 }),
+        agent('failed-both', FAILED),
+        agent('new')
+    ]);
+    const diff = diffSnapshots(before, after);
+
+    it('lists added and removed agents', () => {
+        assert.equal(diff.from, '2026-10-12T08:00:00.000Z');
+        assert.equal(diff.to, '2026-10-19T08:00:00.000Z');
+        assert.deepEqual(diff.added.map(a => a.agent_name), ['new']);
+        assert.deepEqual(diff.removed.map(a => a.agent_name), ['gone']);
+    });
+
+    it('lists changed fields of agents scraped both times', () => {
+        assert.deepEqual(diff.changed, [{
+            profile_url: 'https://www.zillow.com/profile/grown/',
+            agent_name: 'grown',
+            changes: [
+                { field: 'review_count', before: 10, after: 14 },
+                { field: 'team_members_count', before: 3, after: 5 }
+            ]
+        }]);
+    });
+
+    it('lists failed scrapes separately instead of comparing their fields', () => {
+        assert.deepEqual(diff.failed, [
+            { profile_url: 'https://www.zillow.com/profile/fails-now/', agent_name: 'fails-now', failed_in: 'after', error_type: 'bot_challenge' },
+            { profile_url: 'https://www.zillow.com/profile/failed-before/', agent_name: 'failed-before', failed_in: 'before', error_type: 'timeout' },
+            { profile_url: 'https://www.zillow.com/profile/failed-both/', agent_name: 'failed-both', failed_in: 'both', error_type: 'timeout' }
+        ]);
+    });
+
+    it('lines up profile URLs that differ only in form', () => {
+        const older = snapshot('2026-10-12T08:00:00.000Z', [agent('x', { profile_url: 'https://www.zillow.com/profile/JaneDoe' })]);
+        const newer = snapshot('2026-10-19T08:00:00.000Z', [agent('x', { profile_url: 'https://www.zillow.com/profile/janedoe/' })]);
+
+        const diff = diffSnapshots(older, newer);
+        assert.deepEqual([diff.added, diff.removed, diff.changed], [[], [], []]);
+    });
+
+    it('summarizes every section and the teams that grew', () => {
+        const summary = formatDiffSummary(diff);
+
+        assert.match(summary, /Added agents \(1\):\n {2}\+ new/);
+        assert.match(summary, /Removed agents \(1\):\n {2}- gone/);
+        assert.match(summary, / {6}review_count: 10 -> 14/);
+        assert.match(summary, / {2}! fails-now: failed in newer snapshot \(bot_challenge\)/);
+        assert.match(summary, /Teams that grew \(1\):\n {2}grown: 3 -> 5 members/);
+    });
+});
+
+describe('snapshot files', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'zillow-snapshots-'));
+    after(() => rmSync(dir, { recursive: true, force: true }));
+
+    it('pairs the two latest snapshots of one search', () => {
+        const paths = [
+            saveSnapshot(dir, snapshot('2026-10-05T08:00:00.000Z', [agent('a')]), 'seattle'),
+            saveSnapshot(dir, snapshot('2026-10-12T08:00:00.000Z', [agent('a')]), 'seattle'),
+            saveSnapshot(dir, snapshot('2026-10-13T08:00:00.000Z', [agent('b')]), 'portland'),
+            saveSnapshot(dir, snapshot('2026-10-19T08:00:00.000Z', [agent('a')]), 'seattle'),
+            saveSnapshot(dir, snapshot('2026-10-20T08:00:00.000Z', [agent('b')]), 'portland')
+        ];
+
+        assert.equal(paths[0], join(dir, '2026-10-05T08-00-00-000Z.seattle.json'));
+        assert.deepEqual(latestSnapshotPair(dir), [paths[2], paths[4]]);
+        assert.deepEqual(latestSnapshotPair(dir, 'seattle'), [paths[1], paths[3]]);
+        assert.throws(() => latestSnapshotPair(dir, 'tacoma'), /Need at least two snapshots of tacoma/);
+        assert.deepEqual(loadSnapshot(paths[4]).agents, snapshot('', [agent('b')]).agents);
+    });
+
+    it('loads a plain results array as a snapshot', () => {
+        const path = join(dir, 'output.json');
+        writeFileSync(path, JSON.stringify([agent('a')]), 'utf-8');
+
+        const loaded = loadSnapshot(path);
+        assert.deepEqual(Object.keys(loaded.agents), ['https://www.zillow.com/profile/a/']);
+        assert.equal(loaded.metadata.total_agents, 1);
+    });
+});
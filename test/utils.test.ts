@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatCurrency } from '../src/utils';
+
+describe('formatCurrency', () => {
+    it('formats zero', () => {
+        assert.equal(formatCurrency(0), '$0');
+        assert.equal(formatCurrency(-0), '$0');
+        assert.equal(formatCurrency(0.4), '$0');
+        assert.equal(formatCurrency(-0.4), '$0');
+    });
+
+    it('formats whole dollars below a thousand', () => {
+        assert.equal(formatCurrency(1), '$1');
+        assert.equal(formatCurrency(950), '$950');
+        assert.equal(formatCurrency(949.5), '$950');
+        assert.equal(formatCurrency(999), '$999');
+        assert.equal(formatCurrency(999.49), '$999');
+    });
+
+    it('formats thousands as K', () => {
+        assert.equal(formatCurrency(999.5), '$1K');
+        assert.equal(formatCurrency(1000), '$1K');
+        assert.equal(formatCurrency(12000), '$12K');
+        assert.equal(formatCurrency(710000), '$710K');
+        assert.equal(formatCurrency(999499), '$999K');
+    });
+
+    it('formats millions as M with one decimal', () => {
+        assert.equal(formatCurrency(999500), '$1.0M');
+        assert.equal(formatCurrency(999999), '$1.0M');
+        assert.equal(formatCurrency(1000000), '$1.0M');
+        assert.equal(formatCurrency(1250000), '$1.3M');
+        assert.equal(formatCurrency(9300000), '$9.3M');
+        assert.equal(formatCurrency(125000000), '$125.0M');
+    });
+
+    it('puts the sign before the dollar sign', () => {
+        assert.equal(formatCurrency(-950), '-$950');
+        assert.equal(formatCurrency(-5000), '-$5K');
+        assert.equal(formatCurrency(-999999), '-$1.0M');
+    });
+
+    it('gives N/A for non-finite amounts', () => {
+        assert.equal(formatCurrency(NaN), 'N/A');
+        assert.equal(formatCurrency(Infinity), 'N/A');
+        assert.equal(formatCurrency(-Infinity), 'N/A');
+    });
+});